@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+
+const TOKEN_SECRET_KEY = 'mcpTaskServer.authToken';
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Keeps the bearer token that MCP clients must present in the editor's
+ * SecretStorage, generating one on first use.
+ */
+export class AuthTokenStore {
+    private secrets: vscode.SecretStorage;
+
+    constructor(secrets: vscode.SecretStorage) {
+        this.secrets = secrets;
+    }
+
+    async getToken(): Promise<string> {
+        const existing = await this.secrets.get(TOKEN_SECRET_KEY);
+        if (existing) {
+            return existing;
+        }
+        return this.rotate();
+    }
+
+    async rotate(): Promise<string> {
+        const token = randomBytes(32).toString('base64url');
+        await this.secrets.store(TOKEN_SECRET_KEY, token);
+        return token;
+    }
+}
+
+export function isAuthorized(req: IncomingMessage, token: string): boolean {
+    const header = req.headers['authorization'];
+    const match = typeof header === 'string' ? /^Bearer\s+(.+)$/i.exec(header.trim()) : null;
+    if (!match) {
+        return false;
+    }
+
+    const presented = Buffer.from(match[1]);
+    const expected = Buffer.from(token);
+    return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+export function isLoopbackHost(host: string): boolean {
+    return host === '127.0.0.1' || host === '::1' || host === 'localhost';
+}
+
+/**
+ * Guards against DNS rebinding: the Host header must name a loopback address
+ * (or the configured bind host) on our port.
+ */
+export function isAllowedHostHeader(req: IncomingMessage, bindHost: string, port: number): boolean {
+    const header = req.headers['host'];
+    if (!header) {
+        return false;
+    }
+
+    const allowed = [...LOOPBACK_HOSTNAMES];
+    if (!isLoopbackHost(bindHost) && bindHost !== '0.0.0.0' && bindHost !== '::') {
+        allowed.push(bindHost.includes(':') ? `[${bindHost}]` : bindHost);
+    }
+    return allowed.some(hostname => header.toLowerCase() === `${hostname}:${port}`);
+}
+
+/**
+ * Requests without an Origin header come from non-browser clients and are
+ * allowed. Browser requests must come from a loopback page or an origin the
+ * user explicitly allowed.
+ */
+export function isAllowedOrigin(origin: string | undefined, allowedOrigins: string[]): boolean {
+    if (!origin) {
+        return true;
+    }
+    if (allowedOrigins.includes(origin)) {
+        return true;
+    }
+
+    try {
+        const url = new URL(origin);
+        return (url.protocol === 'http:' || url.protocol === 'https:') && LOOPBACK_HOSTNAMES.includes(url.hostname);
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,171 @@
+import * as net from 'net';
+import { stripAnsi } from './outputBuffer';
+import { TaskReadinessOptions, WatchCycleState } from './types';
+
+export interface BackgroundPatterns {
+    beginsPattern?: RegExp;
+    endsPattern?: RegExp;
+    activeOnStart: boolean;
+}
+
+const PORT_POLL_INTERVAL_MS = 500;
+const PORT_CONNECT_TIMEOUT_MS = 1000;
+
+/**
+ * Extracts the begin and end patterns of the first problem matcher that
+ * defines a background (watching) section.
+ */
+export function getBackgroundPatterns(matchers: Array<any | undefined>): BackgroundPatterns | undefined {
+    for (const matcher of matchers) {
+        const background = matcher?.background || matcher?.watching;
+        if (!background) {
+            continue;
+        }
+        return {
+            beginsPattern: toRegExp(background.beginsPattern),
+            endsPattern: toRegExp(background.endsPattern),
+            activeOnStart: background.activeOnStart !== false
+        };
+    }
+    return undefined;
+}
+
+function toRegExp(pattern: string | { regexp?: string } | undefined): RegExp | undefined {
+    const source = typeof pattern === 'string' ? pattern : pattern?.regexp;
+    if (!source) {
+        return undefined;
+    }
+    try {
+        return new RegExp(source);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Follows a background task's output to decide when it is ready and to track
+ * its watch cycles. A task is ready once its problem matcher's end pattern
+ * matches, the caller's readiness pattern matches, or the caller's port accepts
+ * connections, whichever comes first. Without any usable signal the task
+ * counts as ready as soon as its process starts.
+ */
+export class BackgroundTaskWatcher {
+    readonly ready: Promise<string>;
+    readyReason?: string;
+    readyAt?: number;
+    cycleState: WatchCycleState;
+    completedCycles = 0;
+    lastCycleStartedAt?: number;
+    lastCycleEndedAt?: number;
+
+    private patterns?: BackgroundPatterns;
+    private readyPattern?: RegExp;
+    private port?: number;
+    private host: string;
+    private hasOutput: boolean;
+    private partialLine = '';
+    private processStarted = false;
+    private pollTimer?: NodeJS.Timeout;
+    private disposed = false;
+    private resolveReady!: (reason: string) => void;
+
+    /**
+     * @param hasOutput whether the task's output will be fed to onOutput; the
+     * pattern based signals need it.
+     */
+    constructor(patterns: BackgroundPatterns | undefined, options: TaskReadinessOptions, hasOutput: boolean) {
+        this.patterns = patterns;
+        this.readyPattern = options.pattern ? new RegExp(options.pattern) : undefined;
+        this.port = options.port;
+        this.host = options.host || '127.0.0.1';
+        this.hasOutput = hasOutput;
+        this.cycleState = patterns && !patterns.activeOnStart ? 'idle' : 'active';
+        this.lastCycleStartedAt = this.cycleState === 'active' ? Date.now() : undefined;
+        this.ready = new Promise(resolve => {
+            this.resolveReady = resolve;
+        });
+
+        if (this.readyPattern && !hasOutput) {
+            throw new Error('A readiness pattern needs output capture (mcpTaskServer.captureOutput)');
+        }
+    }
+
+    get isReady(): boolean {
+        return this.readyReason !== undefined;
+    }
+
+    onProcessStarted(): void {
+        if (this.processStarted) {
+            return;
+        }
+        this.processStarted = true;
+
+        if (this.port !== undefined) {
+            this.pollPort();
+        } else if (!this.hasOutput || (!this.readyPattern && !this.patterns?.endsPattern)) {
+            this.markReady('process started (no readiness signal available)');
+        }
+    }
+
+    onOutput(data: string): void {
+        const lines = (this.partialLine + data).split(/\r?\n/);
+        this.partialLine = lines.pop() || '';
+        for (const line of lines) {
+            this.processLine(stripAnsi(line));
+        }
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        clearTimeout(this.pollTimer);
+    }
+
+    private processLine(line: string): void {
+        if (this.patterns?.beginsPattern?.test(line)) {
+            this.cycleState = 'active';
+            this.lastCycleStartedAt = Date.now();
+        }
+        if (this.patterns?.endsPattern?.test(line)) {
+            this.cycleState = 'idle';
+            this.completedCycles++;
+            this.lastCycleEndedAt = Date.now();
+            this.markReady('problem matcher end pattern matched');
+        }
+        if (this.readyPattern?.test(line)) {
+            this.markReady(`output matched '${this.readyPattern.source}'`);
+        }
+    }
+
+    private pollPort(): void {
+        if (this.disposed || this.isReady) {
+            return;
+        }
+
+        const socket = net.connect({ host: this.host, port: this.port! });
+        let settled = false;
+        const retry = () => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            socket.destroy();
+            this.pollTimer = setTimeout(() => this.pollPort(), PORT_POLL_INTERVAL_MS);
+        };
+        socket.setTimeout(PORT_CONNECT_TIMEOUT_MS, retry);
+        socket.on('error', retry);
+        socket.once('connect', () => {
+            settled = true;
+            socket.destroy();
+            this.markReady(`port ${this.port} is accepting connections`);
+        });
+    }
+
+    private markReady(reason: string): void {
+        if (this.isReady) {
+            return;
+        }
+        this.readyReason = reason;
+        this.readyAt = Date.now();
+        this.resolveReady(reason);
+    }
+}
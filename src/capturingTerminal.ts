@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import { spawn, ChildProcess } from 'child_process';
+
+export interface CapturedProcessSpec {
+    command: string;
+    args: string[];
+    shell?: boolean | string;
+    cwd?: string;
+    env?: { [key: string]: string | undefined };
+}
+
+export interface CaptureListener {
+    onOutput(data: string, stream: 'stdout' | 'stderr'): void;
+    onProcessStarted(processId: number | undefined): void;
+    onProcessEnded(exitCode: number | undefined): void;
+}
+
+/**
+ * Pseudoterminal that runs a task's process itself so that its output can be
+ * teed to a listener while still being shown in the VSCode terminal panel.
+ */
+export class CapturingPseudoterminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    private closeEmitter = new vscode.EventEmitter<number | void>();
+    private child?: ChildProcess;
+    private finished = false;
+
+    readonly onDidWrite = this.writeEmitter.event;
+    readonly onDidClose = this.closeEmitter.event;
+
+    constructor(
+        private readonly spec: CapturedProcessSpec,
+        private readonly listener: CaptureListener
+    ) {}
+
+    open(): void {
+        const commandLine = [this.spec.command, ...this.spec.args].join(' ');
+        this.writeEmitter.fire(`\x1b[1m> Executing task: ${commandLine} <\x1b[0m\r\n\r\n`);
+
+        try {
+            this.child = spawn(this.spec.command, this.spec.args, {
+                cwd: this.spec.cwd,
+                env: this.spec.env,
+                shell: this.spec.shell,
+                // Its own process group, so that killing it reaches the processes the shell started
+                detached: process.platform !== 'win32'
+            });
+        } catch (error) {
+            this.fail(error);
+            return;
+        }
+
+        this.listener.onProcessStarted(this.child.pid);
+
+        this.child.stdout?.on('data', (data: Buffer) => this.handleData(data.toString(), 'stdout'));
+        this.child.stderr?.on('data', (data: Buffer) => this.handleData(data.toString(), 'stderr'));
+        this.child.on('error', (error) => this.fail(error));
+        this.child.on('close', (code) => this.finish(code === null ? undefined : code));
+    }
+
+    close(): void {
+        if (this.child && !this.finished) {
+            this.killTree('SIGTERM');
+        }
+    }
+
+    handleInput(data: string): void {
+        if (!this.child || this.finished) {
+            return;
+        }
+        if (data === '\x03') {
+            this.killTree('SIGINT');
+            return;
+        }
+        this.child.stdin?.write(data === '\r' ? '\n' : data);
+    }
+
+    /**
+     * Signals the process and everything it started. Killing only the direct
+     * child would stop the shell wrapper and leave e.g. `npm` -> `tsc -w`
+     * running.
+     */
+    private killTree(signal: NodeJS.Signals): void {
+        const child = this.child;
+        if (!child || child.pid === undefined) {
+            return;
+        }
+
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true })
+                .on('error', () => child.kill(signal));
+            return;
+        }
+        try {
+            process.kill(-child.pid, signal);
+        } catch {
+            child.kill(signal);
+        }
+    }
+
+    private handleData(data: string, stream: 'stdout' | 'stderr'): void {
+        this.listener.onOutput(data, stream);
+        this.writeEmitter.fire(data.replace(/\r?\n/g, '\r\n'));
+    }
+
+    private fail(error: unknown): void {
+        const message = error instanceof Error ? error.message : String(error);
+        this.handleData(`Failed to start process: ${message}\n`, 'stderr');
+        this.finish(1);
+    }
+
+    private finish(exitCode: number | undefined): void {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+        this.listener.onProcessEnded(exitCode);
+        this.writeEmitter.fire(`\r\n\x1b[1m> Task finished${exitCode !== undefined ? ` with exit code ${exitCode}` : ''}.\x1b[0m\r\n`);
+        this.closeEmitter.fire(exitCode);
+    }
+}
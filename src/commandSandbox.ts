@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchesGlob } from './glob';
+
+// Keep in sync with the default of mcpTaskServer.runCommand.scrubbedEnvironment
+export const DEFAULT_SCRUBBED_ENVIRONMENT = [
+    '*TOKEN*',
+    '*SECRET*',
+    '*PASSWORD*',
+    '*PASSWD*',
+    '*API_KEY*',
+    '*APIKEY*',
+    '*CREDENTIAL*',
+    '*PRIVATE_KEY*',
+    'AWS_*',
+    'AZURE_*'
+];
+
+// A bare name or a path; anything else, e.g. `python3;curl`, is never allowed
+const PLAIN_EXECUTABLE = /^[\w.\-+/\\:]+$/;
+
+/**
+ * Checks an executable against the run_command allowlist. Entries without a
+ * path separator are globs matched against a bare executable name looked up on
+ * PATH (ignoring a Windows extension such as `.exe` or `.cmd`). Entries with
+ * one are absolute path globs, matched against executables given by path,
+ * which are resolved against the command's working directory. Executables
+ * that are not a plain name or path are rejected whatever the allowlist says.
+ */
+export function isExecutableAllowed(executable: string, allowlist: string[], cwd: string): boolean {
+    if (!PLAIN_EXECUTABLE.test(executable)) {
+        return false;
+    }
+    const hasPath = /[\\/]/.test(executable);
+    const name = executable.replace(/\.(exe|cmd|bat|com)$/i, '');
+    return allowlist.some(entry => /[\\/]/.test(entry)
+        ? hasPath && path.isAbsolute(entry) && matchesGlob(path.resolve(cwd, executable), entry)
+        : !hasPath && matchesGlob(name, entry));
+}
+
+/**
+ * Resolves the working directory for a command. Relative paths are taken
+ * relative to the first workspace folder. When restricted, the directory
+ * (after following symlinks) must lie inside one of the workspace folders.
+ */
+export function resolveCommandCwd(cwd: string | undefined, workspaceFolders: string[], restrict: boolean): string {
+    if (workspaceFolders.length === 0 && (restrict || !cwd || !path.isAbsolute(cwd))) {
+        throw new Error('No workspace folder is open to run the command in');
+    }
+
+    const resolved = cwd ? path.resolve(workspaceFolders[0] || '', cwd) : workspaceFolders[0];
+    let real: string;
+    try {
+        real = fs.realpathSync(resolved);
+    } catch {
+        throw new Error(`Working directory '${resolved}' does not exist`);
+    }
+
+    if (restrict && !workspaceFolders.some(folder => isInside(real, realpathOrSelf(folder)))) {
+        throw new Error(`Working directory '${resolved}' is outside the workspace folders`);
+    }
+    return real;
+}
+
+/**
+ * Returns the names of the variables in the environment that match one of
+ * the scrub patterns and must not be passed to commands.
+ */
+export function getScrubbedVariables(env: NodeJS.ProcessEnv, patterns: string[]): string[] {
+    return Object.keys(env).filter(name => patterns.some(pattern => matchesGlob(name, pattern)));
+}
+
+function isInside(target: string, folder: string): boolean {
+    const relative = path.relative(folder, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function realpathOrSelf(folder: string): string {
+    try {
+        return fs.realpathSync(folder);
+    } catch {
+        return folder;
+    }
+}
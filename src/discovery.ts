@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Shared between the extension and the stdio bridge, so it must not import 'vscode'
+
+export interface DiscoveryInfo {
+    pid: number;
+    port: number;
+    url: string;
+    token: string;
+    workspaceFolders: string[];
+    startedAt: string;
+}
+
+export function getDiscoveryDirectory(): string {
+    return process.env.MCP_TASK_SERVER_DISCOVERY_DIR || path.join(os.homedir(), '.vscode-mcp-task-server');
+}
+
+function getDiscoveryFile(pid: number): string {
+    return path.join(getDiscoveryDirectory(), `server-${pid}.json`);
+}
+
+export function writeDiscoveryFile(info: DiscoveryInfo): string {
+    const directory = getDiscoveryDirectory();
+    fs.mkdirSync(directory, { recursive: true, mode: 0o700 });
+
+    const file = getDiscoveryFile(info.pid);
+    fs.writeFileSync(file, JSON.stringify(info, null, 2), { mode: 0o600 });
+    return file;
+}
+
+export function removeDiscoveryFile(pid: number): void {
+    try {
+        fs.unlinkSync(getDiscoveryFile(pid));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Reads all discovery files, skipping unreadable ones and those left behind
+ * by extension hosts that are no longer running.
+ */
+export function readDiscoveryFiles(): DiscoveryInfo[] {
+    let entries: string[];
+    try {
+        entries = fs.readdirSync(getDiscoveryDirectory());
+    } catch {
+        return [];
+    }
+
+    const servers: DiscoveryInfo[] = [];
+    for (const entry of entries) {
+        if (!/^server-\d+\.json$/.test(entry)) {
+            continue;
+        }
+        try {
+            const info = JSON.parse(fs.readFileSync(path.join(getDiscoveryDirectory(), entry), 'utf8')) as DiscoveryInfo;
+            if (isProcessAlive(info.pid)) {
+                servers.push(info);
+            }
+        } catch {
+            // Ignore partially written or corrupt files
+        }
+    }
+    return servers;
+}
+
+/**
+ * Picks the server whose workspace contains the given directory, preferring
+ * the most specific folder. Falls back to the only running server, if any.
+ */
+export function findServerForDirectory(servers: DiscoveryInfo[], directory: string): DiscoveryInfo | undefined {
+    const target = path.resolve(directory);
+    let best: DiscoveryInfo | undefined;
+    let bestLength = -1;
+
+    for (const server of servers) {
+        for (const folder of server.workspaceFolders) {
+            const relative = path.relative(folder, target);
+            const contains = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+            if (contains && folder.length > bestLength) {
+                best = server;
+                bestLength = folder.length;
+            }
+        }
+    }
+
+    if (!best && servers.length === 1) {
+        return servers[0];
+    }
+    return best;
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
@@ -1,19 +1,27 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { MCPServer } from './mcpServer';
 import { Logger } from './logger';
-import { MCPServerConfig } from './types';
+import { AuthTokenStore } from './auth';
+import { TaskPolicy } from './taskPolicy';
+import { DEFAULT_SCRUBBED_ENVIRONMENT } from './commandSandbox';
+import { MCPServerConfig, TaskPolicyAction, TaskPolicyRule, PromptTemplate, TaskConcurrencyPolicy, TaskConcurrencyRule, TaskTimeoutAction, TaskTimeoutRule } from './types';
 
 let mcpServer: MCPServer | undefined;
 let logger: Logger;
 let mcpServerProvider: vscode.Disposable | undefined;
+let tokenStore: AuthTokenStore;
+const mcpDefinitionsChanged = new vscode.EventEmitter<void>();
 
 export function activate(context: vscode.ExtensionContext) {
     logger = Logger.getInstance();
     logger.info('VSCode MCP Task Extension activated');
 
+    tokenStore = new AuthTokenStore(context.secrets);
+
     // Register commands
     const startCommand = vscode.commands.registerCommand('mcpTaskServer.start', async () => {
-        await startMCPServer();
+        await startMCPServer(context);
     });
 
     const stopCommand = vscode.commands.registerCommand('mcpTaskServer.stop', async () => {
@@ -22,20 +30,49 @@ export function activate(context: vscode.ExtensionContext) {
 
     const restartCommand = vscode.commands.registerCommand('mcpTaskServer.restart', async () => {
         await stopMCPServer();
-        await startMCPServer();
+        await startMCPServer(context);
     });
 
     const showLogsCommand = vscode.commands.registerCommand('mcpTaskServer.showLogs', () => {
         logger.show();
     });
 
+    const copyBridgeConfigCommand = vscode.commands.registerCommand('mcpTaskServer.copyStdioBridgeConfig', async () => {
+        await copyStdioBridgeConfig(context);
+    });
+
+    const copyTokenCommand = vscode.commands.registerCommand('mcpTaskServer.copyAuthToken', async () => {
+        await vscode.env.clipboard.writeText(await tokenStore.getToken());
+        vscode.window.showInformationMessage('MCP Task Server authentication token copied to clipboard');
+    });
+
+    const rotateTokenCommand = vscode.commands.registerCommand('mcpTaskServer.rotateAuthToken', async () => {
+        await rotateAuthToken();
+    });
+
+    const resetApprovalsCommand = vscode.commands.registerCommand('mcpTaskServer.resetTaskApprovals', async () => {
+        await TaskPolicy.clearAlwaysAllowed(context.workspaceState);
+        logger.info('Cleared always-allowed task approvals');
+        vscode.window.showInformationMessage('MCP Task Server task approvals have been reset');
+    });
+
     // Add commands to subscriptions
-    context.subscriptions.push(startCommand, stopCommand, restartCommand, showLogsCommand);
+    context.subscriptions.push(
+        startCommand,
+        stopCommand,
+        restartCommand,
+        showLogsCommand,
+        copyBridgeConfigCommand,
+        copyTokenCommand,
+        rotateTokenCommand,
+        resetApprovalsCommand,
+        mcpDefinitionsChanged
+    );
 
     // Auto-start server if configured
     const config = getServerConfig();
     if (config.autoStart) {
-        startMCPServer().catch(error => {
+        startMCPServer(context).catch(error => {
             logger.error('Failed to auto-start MCP server', { 
                 error: error instanceof Error ? error.message : error 
             });
@@ -103,7 +140,7 @@ export function deactivate() {
     }
 }
 
-async function startMCPServer(): Promise<void> {
+async function startMCPServer(context: vscode.ExtensionContext): Promise<void> {
     if (mcpServer && mcpServer.isServerRunning()) {
         vscode.window.showWarningMessage('MCP Task Server is already running');
         return;
@@ -111,7 +148,7 @@ async function startMCPServer(): Promise<void> {
 
     try {
         const config = getServerConfig();
-        mcpServer = new MCPServer(config);
+        mcpServer = new MCPServer(config, await tokenStore.getToken(), context.workspaceState);
         await mcpServer.start();
         
         // Refresh MCP server registration after starting
@@ -127,6 +164,7 @@ async function startMCPServer(): Promise<void> {
             }
         });
     } catch (error) {
+        mcpServer = undefined;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         logger.error('Failed to start MCP Task Server', { error: errorMessage });
         vscode.window.showErrorMessage(`Failed to start MCP Task Server: ${errorMessage}`);
@@ -153,12 +191,82 @@ async function stopMCPServer(): Promise<void> {
     }
 }
 
+async function copyStdioBridgeConfig(context: vscode.ExtensionContext): Promise<void> {
+    const bridgePath = context.asAbsolutePath(path.join('out', 'stdioBridge.js'));
+    const snippet = JSON.stringify({
+        mcpServers: {
+            'vscode-tasks': {
+                command: 'node',
+                args: [bridgePath]
+            }
+        }
+    }, null, 2);
+
+    await vscode.env.clipboard.writeText(snippet);
+    logger.info('Copied stdio bridge configuration to clipboard', { bridgePath });
+    vscode.window.showInformationMessage('MCP stdio bridge configuration copied to clipboard');
+}
+
+async function rotateAuthToken(): Promise<void> {
+    const confirmation = await vscode.window.showWarningMessage(
+        'Rotate the MCP Task Server token? Connected clients will need the new token.',
+        { modal: true },
+        'Rotate'
+    );
+    if (confirmation !== 'Rotate') {
+        return;
+    }
+
+    try {
+        const token = await tokenStore.rotate();
+        if (mcpServer) {
+            await mcpServer.setAuthToken(token);
+        }
+        refreshMCPServerRegistration();
+
+        logger.info('MCP Task Server authentication token rotated');
+        const selection = await vscode.window.showInformationMessage(
+            'MCP Task Server token rotated.',
+            'Copy Token'
+        );
+        if (selection === 'Copy Token') {
+            await vscode.env.clipboard.writeText(token);
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to rotate MCP Task Server token', { error: errorMessage });
+        vscode.window.showErrorMessage(`Failed to rotate MCP Task Server token: ${errorMessage}`);
+    }
+}
+
 function getServerConfig(): MCPServerConfig {
     const config = vscode.workspace.getConfiguration('mcpTaskServer');
     return {
+        host: config.get<string>('host', '127.0.0.1'),
         port: config.get<number>('port', 3000),
+        allowedOrigins: config.get<string[]>('allowedOrigins', []),
         enableLogging: config.get<boolean>('enableLogging', true),
-        autoStart: config.get<boolean>('autoStart', true)
+        autoStart: config.get<boolean>('autoStart', true),
+        captureOutput: config.get<boolean>('captureOutput', true),
+        maxOutputLength: config.get<number>('maxOutputLength', 20000),
+        taskPolicyDefault: config.get<TaskPolicyAction>('taskPolicy.defaultAction', 'allow'),
+        taskPolicyRules: config.get<TaskPolicyRule[]>('taskPolicy.rules', []),
+        runCommandAllowedExecutables: config.get<string[]>('runCommand.allowedExecutables', []),
+        runCommandRestrictToWorkspace: config.get<boolean>('runCommand.restrictToWorkspace', true),
+        runCommandScrubbedEnvironment: config.get<string[]>('runCommand.scrubbedEnvironment', DEFAULT_SCRUBBED_ENVIRONMENT),
+        runCommandTimeoutMs: config.get<number>('runCommand.timeoutMs', 60000),
+        historyMaxRecords: config.get<number>('history.maxRecords', 200),
+        historyMaxAgeDays: config.get<number>('history.maxAgeDays', 30),
+        historyMaxOutputLength: config.get<number>('history.maxOutputLength', 2000),
+        customPrompts: config.get<PromptTemplate[]>('prompts.custom', []),
+        taskToolsEnabled: config.get<boolean>('taskTools.enabled', false),
+        taskToolGroups: config.get<string[]>('taskTools.groups', []),
+        maxRunningTasks: config.get<number>('concurrency.maxRunningTasks', 0),
+        concurrencyDefault: config.get<TaskConcurrencyPolicy>('concurrency.ifRunning', 'queue'),
+        concurrencyRules: config.get<TaskConcurrencyRule[]>('concurrency.rules', []),
+        defaultTimeoutSeconds: config.get<number>('defaultTimeoutSeconds', 300),
+        onTimeout: config.get<TaskTimeoutAction>('onTimeout', 'keepRunning'),
+        taskTimeouts: config.get<TaskTimeoutRule[]>('taskTimeouts', [])
     };
 }
 
@@ -169,21 +277,18 @@ function registerMCPServerWithVSCode(context: vscode.ExtensionContext): void {
             const provider = (vscode.lm as any).registerMcpServerDefinitionProvider(
                 'mcpTaskServerProvider',
                 {
+                    onDidChangeMcpServerDefinitions: mcpDefinitionsChanged.event,
                     async provideMcpServerDefinitions(): Promise<any[]> {
-                        const config = getServerConfig();
-                        const isServerRunning = mcpServer && mcpServer.isServerRunning();
-                        
-                        if (!isServerRunning) {
+                        if (!mcpServer || !mcpServer.isServerRunning()) {
                             return [];
                         }
 
-                        return [{
-                            id: 'vscode-task-mcp-server',
-                            name: 'VSCode Task MCP Server',
-                            type: 'http',
-                            url: `http://localhost:${config.port}/mcp`,
-                            description: 'Provides access to VSCode tasks through MCP protocol'
-                        }];
+                        const token = await tokenStore.getToken();
+                        return [new vscode.McpHttpServerDefinition(
+                            'VSCode Task MCP Server',
+                            vscode.Uri.parse(mcpServer.getUrl()),
+                            { Authorization: `Bearer ${token}` }
+                        )];
                     }
                 }
             );
@@ -203,12 +308,12 @@ function registerMCPServerWithVSCode(context: vscode.ExtensionContext): void {
 
 function refreshMCPServerRegistration(): void {
     try {
-        // Check if there's an API to refresh MCP server registrations
-        if ('lm' in vscode && 'refreshMcpServers' in vscode.lm) {
-            (vscode.lm as any).refreshMcpServers();
+        // Ask VSCode to re-query the provider for the current URL and token
+        if (mcpServerProvider) {
+            mcpDefinitionsChanged.fire();
             logger.info('MCP Server registration refreshed');
         } else {
-            logger.debug('MCP server refresh API not available');
+            logger.debug('MCP server registration not available to refresh');
         }
     } catch (error) {
         logger.warn('Failed to refresh MCP server registration', {
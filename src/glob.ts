@@ -0,0 +1,23 @@
+/**
+ * Converts a glob with `*` and `?` wildcards into a case-insensitive regular
+ * expression matching the whole string.
+ */
+export function globToRegExp(glob: string): RegExp {
+    const pattern = glob
+        .split('')
+        .map(char => {
+            if (char === '*') {
+                return '.*';
+            }
+            if (char === '?') {
+                return '.';
+            }
+            return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    return new RegExp(`^${pattern}$`, 'i');
+}
+
+export function matchesGlob(value: string, glob: string | undefined): boolean {
+    return glob === undefined || globToRegExp(glob).test(value);
+}
@@ -33,10 +33,7 @@ export class Logger {
         }
 
         // Format and output
-        const timestamp = entry.timestamp.toISOString();
-        const levelName = LogLevel[level];
-        const contextStr = context ? ` | Context: ${JSON.stringify(context)}` : '';
-        const logMessage = `[${timestamp}] [${levelName}] ${message}${contextStr}`;
+        const logMessage = this.format(entry);
 
         this.outputChannel.appendLine(logMessage);
 
@@ -77,6 +74,13 @@ export class Logger {
         this.outputChannel.show();
     }
 
+    format(entry: LogEntry): string {
+        const timestamp = entry.timestamp.toISOString();
+        const levelName = LogLevel[entry.level];
+        const contextStr = entry.context ? ` | Context: ${JSON.stringify(entry.context)}` : '';
+        return `[${timestamp}] [${levelName}] ${entry.message}${contextStr}`;
+    }
+
     getLogs(): LogEntry[] {
         return [...this.logs];
     }
@@ -0,0 +1,154 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { PromptTemplate, TaskInfo } from './types';
+import { TaskProvider } from './taskProvider';
+import { formatProblems } from './taskProblems';
+import { selectTask } from './taskSelector';
+import { Logger } from './logger';
+
+const LAST_RUN_SECTIONS = `Last run: {{lastRunStatus}}
+
+Problems from the last run:
+{{problems}}
+
+Output of the last run:
+\`\`\`
+{{lastRunOutput}}
+\`\`\``;
+
+const BUILT_IN_PROMPTS: PromptTemplate[] = [
+    {
+        name: 'fix-build-errors',
+        description: 'Run a build task, fix the problems it reports and rerun it until it succeeds',
+        template: `Run the VSCode task '{{taskName}}' with the execute_task tool and read the problems it reports (get_task_problems lists all of them). Fix the errors in the source files, then run the task again. Repeat until the task succeeds without errors. Don't silence errors by changing the build configuration.
+
+Task definition:
+\`\`\`json
+{{taskDefinition}}
+\`\`\`
+
+${LAST_RUN_SECTIONS}`
+    },
+    {
+        name: 'run-tests-and-summarize',
+        description: 'Run a test task and summarize which tests passed and failed',
+        template: `Run the VSCode task '{{taskName}}' with the execute_task tool and wait for it to finish. Summarize the result: how many tests ran, passed and failed, and for each failure the test name, the failing assertion and its likely cause. Compare with the last run below if there is one. Don't change any code.
+
+Task definition:
+\`\`\`json
+{{taskDefinition}}
+\`\`\`
+
+${LAST_RUN_SECTIONS}`
+    },
+    {
+        name: 'explain-task',
+        description: 'Explain what a task does, what it needs and how it relates to other tasks',
+        template: `Explain what the VSCode task '{{taskName}}' does: the command it runs with its arguments and working directory, the inputs it asks for, the tasks it depends on, its problem matchers and whether it keeps running in the background. Point out anything surprising or risky. Don't run the task.
+
+Task definition:
+\`\`\`json
+{{taskDefinition}}
+\`\`\`
+
+Last run: {{lastRunStatus}}`
+    }
+];
+
+/**
+ * Provides prompts for common task workflows. Every prompt takes a task name
+ * and fills its template with the task's definition and its last finished
+ * run. Custom templates from mcpTaskServer.prompts.custom can add prompts or
+ * replace built-in ones of the same name.
+ */
+export class MCPPrompts {
+    private taskProvider: TaskProvider;
+    private templates: PromptTemplate[];
+    private logger: Logger;
+
+    constructor(taskProvider: TaskProvider, customTemplates: PromptTemplate[]) {
+        this.taskProvider = taskProvider;
+        this.logger = Logger.getInstance();
+
+        const templates = new Map(BUILT_IN_PROMPTS.map(template => [template.name, template]));
+        for (const template of customTemplates) {
+            if (typeof template?.name !== 'string' || !template.name.trim() || typeof template.template !== 'string') {
+                this.logger.warn('Ignoring custom prompt without a name or template', { prompt: template });
+                continue;
+            }
+            templates.set(template.name, template);
+        }
+        this.templates = Array.from(templates.values());
+    }
+
+    register(server: McpServer): void {
+        for (const template of this.templates) {
+            server.registerPrompt(template.name, {
+                description: template.description,
+                argsSchema: {
+                    taskName: completable(z.string().describe('Name of the task'), value => this.completeTaskName(value)),
+                    folder: z.string().optional().describe('Workspace folder (name or URI) of the task, when its name exists in several folders')
+                }
+            }, (args) => this.getPrompt(template, args.taskName, args.folder));
+        }
+    }
+
+    private async getPrompt(template: PromptTemplate, taskName: string, folder?: string): Promise<GetPromptResult> {
+        this.logger.info(`Prompt requested: ${template.name}`, { taskName, folder });
+
+        const task = selectTask(await this.taskProvider.getAllTasks(), { taskName, folder }, candidate => candidate);
+
+        const values = this.getTemplateValues(task);
+        const text = template.template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+            values[name] ?? placeholder);
+
+        return {
+            description: template.description,
+            messages: [{
+                role: 'user',
+                content: { type: 'text', text }
+            }]
+        };
+    }
+
+    /**
+     * Values for the template placeholders. The last run is the most recent
+     * finished run in the run history; its problem details are only known
+     * while the run is still retained in memory.
+     */
+    private getTemplateValues(task: TaskInfo): { [name: string]: string } {
+        const { runId, lifecycle, ...definition } = task;
+        const [lastRun] = this.taskProvider.getRunHistory({ taskId: task.id, limit: 1 });
+
+        let lastRunStatus = 'the task has not run yet';
+        let problems = 'none';
+        if (lastRun) {
+            const exitCode = lastRun.exitCode !== undefined ? ` with exit code ${lastRun.exitCode}` : '';
+            lastRunStatus = `${lastRun.status}${exitCode}, started ${new Date(lastRun.startTime).toISOString()}, took ${lastRun.duration}ms`;
+
+            const details = this.taskProvider.getTaskProblems(undefined, lastRun.runId);
+            if (details && details.problems.length > 0) {
+                problems = formatProblems(details.problems);
+            } else if (lastRun.problemSummary.total > 0) {
+                problems = `${lastRun.problemSummary.errors} errors and ${lastRun.problemSummary.warnings} warnings (details are no longer available)`;
+            }
+        }
+
+        return {
+            taskName: task.name,
+            taskSource: task.source,
+            taskDefinition: JSON.stringify(definition, null, 2),
+            lastRunStatus,
+            lastRunOutput: lastRun?.output || lastRun?.error || '(no output)',
+            problems
+        };
+    }
+
+    private async completeTaskName(value: string): Promise<string[]> {
+        const tasks = await this.taskProvider.getAllTasks();
+        const names = tasks.map(task => task.name).filter(name => name.toLowerCase().startsWith(value.toLowerCase()));
+        return Array.from(new Set(names));
+    }
+}
@@ -0,0 +1,197 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ReadResourceResult, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { TaskInfo } from './types';
+import { TaskProvider } from './taskProvider';
+import { TaskKey, selectTask } from './taskSelector';
+import { Logger } from './logger';
+
+const LOGS_URI = 'mcp-task-server://logs';
+// Subscribers to a run's output hear about new output at most this often
+const OUTPUT_UPDATE_INTERVAL_MS = 1000;
+
+export function getTaskUri(task: TaskKey): string {
+    return `task://${encodeURIComponent(task.scope)}/${encodeURIComponent(task.source.toLowerCase())}/${encodeURIComponent(task.name)}`;
+}
+
+export function getRunOutputUri(runId: string): string {
+    return `task-run://${encodeURIComponent(runId)}/output`;
+}
+
+/**
+ * Exposes task definitions, captured run output and the server log as MCP
+ * resources. Clients can subscribe to a run's output resource and are
+ * notified as the output grows and when the run finishes.
+ */
+export class MCPResources {
+    private taskProvider: TaskProvider;
+    private logger: Logger;
+
+    constructor(taskProvider: TaskProvider) {
+        this.taskProvider = taskProvider;
+        this.logger = Logger.getInstance();
+    }
+
+    /**
+     * Registers the resources on an MCP server instance. Subscriptions are kept
+     * per server, so every session only hears about the URIs it subscribed to.
+     */
+    register(server: McpServer): void {
+        server.registerResource('task', new ResourceTemplate('task://{scope}/{source}/{name}', {
+            list: async () => ({
+                resources: (await this.taskProvider.getAllTasks()).map(task => ({
+                    uri: getTaskUri(task),
+                    name: task.name,
+                    description: `${task.source} task (${task.scope})`,
+                    mimeType: 'application/json'
+                }))
+            })
+        }), {
+            title: 'Task definition',
+            description: 'A VSCode task: its definition, execution, inputs and dependencies',
+            mimeType: 'application/json'
+        }, (uri, variables) => this.readTask(uri, {
+            scope: this.getVariable(variables.scope),
+            source: this.getVariable(variables.source),
+            name: this.getVariable(variables.name)
+        }));
+
+        server.registerResource('task-run-output', new ResourceTemplate('task-run://{runId}/output', {
+            list: () => ({
+                resources: this.taskProvider.getCapturedRuns().map(run => ({
+                    uri: getRunOutputUri(run.runId),
+                    name: `${run.taskName} output`,
+                    description: `Output of the ${run.status} run of ${run.taskName} started at ${new Date(run.startTime).toISOString()}`,
+                    mimeType: 'text/plain'
+                }))
+            })
+        }), {
+            title: 'Task run output',
+            description: 'Captured output of a task run. Subscribe to be notified as it grows and when the run finishes',
+            mimeType: 'text/plain'
+        }, (uri, variables) => this.readRunOutput(uri, this.getVariable(variables.runId)));
+
+        server.registerResource('logs', LOGS_URI, {
+            title: 'MCP Task Server logs',
+            description: 'Recent log entries of the MCP Task Server',
+            mimeType: 'text/plain'
+        }, (uri) => this.readLogs(uri));
+
+        this.registerSubscriptions(server);
+    }
+
+    private async readTask(uri: URL, key: TaskKey): Promise<ReadResourceResult> {
+        const tasks = await this.taskProvider.getAllTasks();
+        const task = selectTask(tasks.filter(candidate => candidate.scope === key.scope), { taskName: key.name, source: key.source }, candidate => candidate);
+
+        return {
+            contents: [{
+                uri: uri.toString(),
+                mimeType: 'application/json',
+                text: JSON.stringify(this.toTaskResource(task), null, 2)
+            }]
+        };
+    }
+
+    private readRunOutput(uri: URL, runId: string): ReadResourceResult {
+        const output = this.taskProvider.getTaskOutput(undefined, runId);
+        if (!output) {
+            throw new Error(`No captured output for run: ${runId}`);
+        }
+
+        return {
+            contents: [{
+                uri: uri.toString(),
+                mimeType: 'text/plain',
+                text: output.output
+            }]
+        };
+    }
+
+    private readLogs(uri: URL): ReadResourceResult {
+        return {
+            contents: [{
+                uri: uri.toString(),
+                mimeType: 'text/plain',
+                text: this.logger.getLogs().map(entry => this.logger.format(entry)).join('\n')
+            }]
+        };
+    }
+
+    private toTaskResource(task: TaskInfo): TaskInfo {
+        const { runId, lifecycle, ...definition } = task;
+        return definition;
+    }
+
+    private getVariable(value: string | string[]): string {
+        return decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+    }
+
+    /**
+     * Handles resources/subscribe and resources/unsubscribe. Output updates are
+     * coalesced to one notification per interval; the final one is sent as soon
+     * as the run finishes. Task resources are updated when the task list changes.
+     */
+    private registerSubscriptions(server: McpServer): void {
+        const subscriptions = new Set<string>();
+        const timers = new Map<string, NodeJS.Timeout>();
+
+        server.server.registerCapabilities({ resources: { subscribe: true } });
+        server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+            subscriptions.add(request.params.uri);
+            this.logger.debug('Resource subscribed', { uri: request.params.uri });
+            return {};
+        });
+        server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+            subscriptions.delete(request.params.uri);
+            clearTimeout(timers.get(request.params.uri));
+            timers.delete(request.params.uri);
+            return {};
+        });
+
+        const notify = (uri: string) => {
+            server.server.sendResourceUpdated({ uri }).catch(error => {
+                this.logger.debug('Failed to send resource update', {
+                    uri,
+                    error: error instanceof Error ? error.message : error
+                });
+            });
+        };
+
+        const listener = this.taskProvider.onDidUpdateRun(update => {
+            const uri = getRunOutputUri(update.runId);
+            if (!subscriptions.has(uri) || (update.kind !== 'output' && update.kind !== 'completed')) {
+                return;
+            }
+            if (update.kind === 'completed') {
+                clearTimeout(timers.get(uri));
+                timers.delete(uri);
+                notify(uri);
+            } else if (!timers.has(uri)) {
+                timers.set(uri, setTimeout(() => {
+                    timers.delete(uri);
+                    notify(uri);
+                }, OUTPUT_UPDATE_INTERVAL_MS));
+            }
+        });
+
+        // Added, removed or changed tasks change the resource list and the task resources
+        const tasksListener = this.taskProvider.onDidChangeTasks(() => {
+            server.sendResourceListChanged();
+            subscriptions.forEach(uri => {
+                if (uri.startsWith('task://')) {
+                    notify(uri);
+                }
+            });
+        });
+
+        const onclose = server.server.onclose;
+        server.server.onclose = () => {
+            onclose?.();
+            listener.dispose();
+            tasksListener.dispose();
+            timers.forEach(timer => clearTimeout(timer));
+            timers.clear();
+            subscriptions.clear();
+        };
+    }
+}
@@ -1,23 +1,52 @@
 import * as vscode from 'vscode';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { createServer, type Server } from 'http';
-import { z } from 'zod';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest, isJSONRPCRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
 import { MCPServerConfig } from './types';
 import { TaskProvider } from './taskProvider';
+import { TaskPolicy } from './taskPolicy';
+import { TaskAuthoring } from './taskAuthoring';
+import { RunHistory } from './runHistory';
+import { MCPTools } from './mcpTools';
+import { MCPResources } from './mcpResources';
+import { MCPPrompts } from './mcpPrompts';
 import { Logger } from './logger';
+import { writeDiscoveryFile, removeDiscoveryFile } from './discovery';
+import { isAuthorized, isAllowedHostHeader, isAllowedOrigin } from './auth';
+
+interface MCPSession {
+    server: McpServer;
+    transport: StreamableHTTPServerTransport;
+}
 
 export class MCPServer {
-    private mcpServer?: McpServer;
     private httpServer?: Server;
+    private sessions: Map<string, MCPSession> = new Map();
     private taskProvider: TaskProvider;
+    private tools: MCPTools;
+    private resources: MCPResources;
+    private prompts: MCPPrompts;
     private logger: Logger;
     private config: MCPServerConfig;
+    private authToken: string;
     private isRunning = false;
 
-    constructor(config: MCPServerConfig) {
+    constructor(config: MCPServerConfig, authToken: string, workspaceState: vscode.Memento) {
         this.config = config;
+        this.authToken = authToken;
         this.logger = Logger.getInstance();
-        this.taskProvider = new TaskProvider();
+        const policy = new TaskPolicy(config.taskPolicyRules, config.taskPolicyDefault, workspaceState);
+        const history = new RunHistory(workspaceState, {
+            maxRecords: config.historyMaxRecords,
+            maxAgeDays: config.historyMaxAgeDays,
+            maxOutputLength: config.historyMaxOutputLength
+        });
+        this.taskProvider = new TaskProvider(config, policy, history);
+        this.tools = new MCPTools(this.taskProvider, new TaskAuthoring(policy), config);
+        this.resources = new MCPResources(this.taskProvider);
+        this.prompts = new MCPPrompts(this.taskProvider, config.customPrompts);
     }
 
     async start(): Promise<void> {
@@ -26,20 +55,12 @@ export class MCPServer {
         }
 
         try {
-            // Create MCP server instance
-            this.mcpServer = new McpServer({
-                name: 'vscode-task-server',
-                version: '1.0.0'
-            });
-
-            // MCP server instance created - tools will be handled via HTTP requests
-
             // Create HTTP server for streamable-http transport
             this.httpServer = createServer();
-            
-            // Set up MCP server to handle HTTP requests
+
+            // Route MCP traffic to the per-session transports
             this.httpServer.on('request', async (req, res) => {
-                if (req.method === 'POST' && req.url === '/mcp') {
+                if (req.url?.split('?')[0] === '/mcp') {
                     await this.handleMCPRequest(req, res);
                 } else {
                     res.writeHead(404, { 'Content-Type': 'application/json' });
@@ -49,19 +70,25 @@ export class MCPServer {
 
             // Start the HTTP server
             await new Promise<void>((resolve, reject) => {
-                this.httpServer!.listen(this.config.port, '0.0.0.0', () => {
+                this.httpServer!.listen(this.config.port, this.config.host, () => {
                     resolve();
                 });
                 this.httpServer!.on('error', reject);
             });
-            
+
             this.isRunning = true;
-            this.logger.info(`MCP Server started with streamable-http transport on port ${this.config.port}`);
+            this.publishDiscoveryFile();
+            this.logger.info(`MCP Server started with streamable-http transport on ${this.config.host}:${this.config.port}`);
             vscode.window.showInformationMessage(`MCP Task Server started on port ${this.config.port}`);
-            
+
         } catch (error) {
-            this.logger.error('Failed to start MCP Server', { 
-                error: error instanceof Error ? error.message : error 
+            // A failed server is discarded, so release the task listeners and
+            // file watchers it registered instead of leaving them recording runs
+            this.httpServer?.close();
+            this.httpServer = undefined;
+            this.taskProvider.dispose();
+            this.logger.error('Failed to start MCP Server', {
+                error: error instanceof Error ? error.message : error
             });
             throw new Error(`Failed to start MCP Server: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -73,21 +100,28 @@ export class MCPServer {
         }
 
         try {
+            for (const [sessionId, session] of this.sessions) {
+                await this.closeSession(sessionId, session);
+            }
+
             if (this.httpServer) {
                 await new Promise<void>((resolve) => {
                     this.httpServer!.close(() => resolve());
+                    // Drop idle keep-alive and SSE connections so close() can complete
+                    this.httpServer!.closeAllConnections();
                 });
                 this.httpServer = undefined;
             }
-            
-            this.mcpServer = undefined;
+
             this.isRunning = false;
-            
+            this.taskProvider.dispose();
+            this.withdrawDiscoveryFile();
+
             this.logger.info('MCP Server stopped');
             vscode.window.showInformationMessage('MCP Task Server stopped');
         } catch (error) {
-            this.logger.error('Error stopping MCP Server', { 
-                error: error instanceof Error ? error.message : error 
+            this.logger.error('Error stopping MCP Server', {
+                error: error instanceof Error ? error.message : error
             });
         }
     }
@@ -96,356 +130,269 @@ export class MCPServer {
         return this.isRunning;
     }
 
+    /**
+     * Replaces the bearer token. Sessions opened with the old token are closed
+     * so that clients have to reconnect with the new one.
+     */
+    async setAuthToken(token: string): Promise<void> {
+        this.authToken = token;
+        for (const [sessionId, session] of this.sessions) {
+            await this.closeSession(sessionId, session);
+        }
+        if (this.isRunning) {
+            this.publishDiscoveryFile();
+        }
+        this.logger.info('MCP Server authentication token updated');
+    }
 
+    /**
+     * Dispatches a request on /mcp. POST requests either initialize a new
+     * session or are routed to an existing one by their Mcp-Session-Id header;
+     * GET (SSE stream) and DELETE (session termination) always need a session.
+     */
+    private async handleMCPRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const origin = req.headers['origin'];
+
+        if (!isAllowedHostHeader(req, this.config.host, this.config.port)) {
+            this.logger.warn('Rejected MCP request with unexpected Host header', { host: req.headers['host'] });
+            this.sendJsonRpcError(res, 403, -32000, 'Forbidden: invalid Host header');
+            return;
+        }
 
-    private async handleMCPRequest(req: any, res: any): Promise<void> {
-        try {
-            let body = '';
-            req.on('data', (chunk: any) => {
-                body += chunk.toString();
-            });
+        if (!isAllowedOrigin(origin, this.config.allowedOrigins)) {
+            this.logger.warn('Rejected MCP request from disallowed origin', { origin });
+            this.sendJsonRpcError(res, 403, -32000, 'Forbidden: origin not allowed');
+            return;
+        }
 
-            req.on('end', async () => {
-                try {
-                    const request = JSON.parse(body);
-                    this.logger.info('Received MCP request', { method: request.method });
-
-                    // Handle MCP protocol requests
-                    let response;
-                    switch (request.method) {
-                        case 'initialize':
-                            response = {
-                                jsonrpc: '2.0',
-                                id: request.id,
-                                result: {
-                                    protocolVersion: '2024-11-05',
-                                    capabilities: {
-                                        tools: {}
-                                    },
-                                    serverInfo: {
-                                        name: 'vscode-task-server',
-                                        version: '1.0.0'
-                                    }
-                                }
-                            };
-                            break;
-
-                        case 'tools/list':
-                            const tools = await this.getToolsList();
-                            response = {
-                                jsonrpc: '2.0',
-                                id: request.id,
-                                result: { tools }
-                            };
-                            break;
-
-                        case 'tools/call':
-                            const toolResult = await this.executeTool(request.params);
-                            response = {
-                                jsonrpc: '2.0',
-                                id: request.id,
-                                result: toolResult
-                            };
-                            break;
-
-                        default:
-                            response = {
-                                jsonrpc: '2.0',
-                                id: request.id,
-                                error: {
-                                    code: -32601,
-                                    message: `Method ${request.method} not found`
-                                }
-                            };
-                    }
+        this.setCorsHeaders(res, origin);
+
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+
+        if (!isAuthorized(req, this.authToken)) {
+            this.logger.warn('Rejected unauthenticated MCP request', { remoteAddress: req.socket.remoteAddress });
+            res.setHeader('WWW-Authenticate', 'Bearer realm="mcp-task-server"');
+            this.sendJsonRpcError(res, 401, -32000, 'Unauthorized: missing or invalid bearer token');
+            return;
+        }
 
-                    res.writeHead(200, { 
-                        'Content-Type': 'application/json',
-                        'Access-Control-Allow-Origin': '*',
-                        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-                        'Access-Control-Allow-Headers': 'Content-Type'
-                    });
-                    res.end(JSON.stringify(response));
+        try {
+            const sessionId = this.getSessionId(req);
 
+            if (req.method === 'POST') {
+                let body: unknown;
+                try {
+                    body = JSON.parse(await this.readBody(req));
                 } catch (parseError) {
-                    this.logger.error('Error parsing MCP request', { error: parseError });
-                    res.writeHead(400, { 'Content-Type': 'application/json' });
-                    res.end(JSON.stringify({ 
-                        jsonrpc: '2.0',
-                        id: null,
-                        error: { code: -32700, message: 'Parse error' }
-                    }));
+                    this.logger.error('Error parsing MCP request', { error: parseError instanceof Error ? parseError.message : parseError });
+                    this.sendJsonRpcError(res, 400, -32700, 'Parse error');
+                    return;
                 }
-            });
-
-        } catch (error) {
-            this.logger.error('Error handling MCP request', { error });
-            res.writeHead(500, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ 
-                jsonrpc: '2.0',
-                id: null,
-                error: { code: -32603, message: 'Internal error' }
-            }));
-        }
-    }
 
-    private async getToolsList(): Promise<any[]> {
-        return [
-            {
-                name: 'list_tasks',
-                description: 'List all available VSCode tasks in the workspace',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        filter: {
-                            type: 'string',
-                            description: 'Optional filter to match task names or sources'
-                        }
+                if (sessionId) {
+                    const session = this.sessions.get(sessionId);
+                    if (!session) {
+                        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+                        return;
                     }
+                    this.cancelOnDisconnect(session.transport, res, body);
+                    await session.transport.handleRequest(req, res, body);
+                    return;
                 }
-            },
-            {
-                name: 'execute_task',
-                description: 'Execute a specific VSCode task by name',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        taskName: {
-                            type: 'string',
-                            description: 'Name of the task to execute'
-                        },
-                        source: {
-                            type: 'string',
-                            description: 'Optional source of the task (e.g., npm, grunt, workspace)'
-                        }
-                    },
-                    required: ['taskName']
-                }
-            },
-            {
-                name: 'get_running_tasks',
-                description: 'Get a list of currently running VSCode tasks',
-                inputSchema: {
-                    type: 'object',
-                    properties: {}
-                }
-            },
-            {
-                name: 'terminate_task',
-                description: 'Terminate a running VSCode task by name',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        taskName: {
-                            type: 'string',
-                            description: 'Name of the task to terminate'
-                        }
-                    },
-                    required: ['taskName']
+
+                const messages = Array.isArray(body) ? body : [body];
+                if (!messages.some(message => isInitializeRequest(message))) {
+                    this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+                    return;
                 }
-            },
-            {
-                name: 'get_task_details',
-                description: 'Get detailed information about a specific VSCode task',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        taskName: {
-                            type: 'string',
-                            description: 'Name of the task to get details for'
-                        },
-                        source: {
-                            type: 'string',
-                            description: 'Optional source of the task'
-                        }
-                    },
-                    required: ['taskName']
+
+                const session = await this.createSession();
+                await session.transport.handleRequest(req, res, body);
+                return;
+            }
+
+            if (req.method === 'GET' || req.method === 'DELETE') {
+                const session = sessionId ? this.sessions.get(sessionId) : undefined;
+                if (!session) {
+                    this.sendJsonRpcError(res, sessionId ? 404 : 400, -32000,
+                        sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+                    return;
                 }
+                await session.transport.handleRequest(req, res);
+                return;
             }
-        ];
-    }
 
-    private async executeTool(params: any): Promise<any> {
-        const { name, arguments: args } = params;
+            res.writeHead(405, { 'Allow': 'GET, POST, DELETE, OPTIONS' });
+            res.end();
 
-        try {
-            switch (name) {
-                case 'list_tasks':
-                    return await this.executeListTasks(args);
-                case 'execute_task':
-                    return await this.executeTask(args);
-                case 'get_running_tasks':
-                    return await this.getRunningTasks();
-                case 'terminate_task':
-                    return await this.terminateTask(args);
-                case 'get_task_details':
-                    return await this.getTaskDetails(args);
-                default:
-                    throw new Error(`Unknown tool: ${name}`);
-            }
         } catch (error) {
-            return {
-                content: [{
-                    type: 'text',
-                    text: `Error executing tool '${name}': ${error instanceof Error ? error.message : 'Unknown error'}`
-                }],
-                isError: true
-            };
+            this.logger.error('Error handling MCP request', {
+                error: error instanceof Error ? error.message : error
+            });
+            if (!res.headersSent) {
+                this.sendJsonRpcError(res, 500, -32603, 'Internal error');
+            }
         }
     }
 
-    private async executeListTasks(args: any): Promise<any> {
-        const tasks = await this.taskProvider.getAllTasks();
-        let filteredTasks = tasks;
-
-        if (args.filter) {
-            const filterLower = args.filter.toLowerCase();
-            filteredTasks = tasks.filter(task => 
-                task.name.toLowerCase().includes(filterLower) ||
-                task.source.toLowerCase().includes(filterLower) ||
-                (task.group && task.group.toLowerCase().includes(filterLower))
-            );
+    /**
+     * The SDK only aborts a request's handler on notifications/cancelled. When
+     * the client drops the connection before the response was written, the
+     * requests in the message are cancelled the same way, which terminates the
+     * task runs they were waiting for.
+     */
+    private cancelOnDisconnect(transport: StreamableHTTPServerTransport, res: ServerResponse, body: unknown): void {
+        const messages = Array.isArray(body) ? body : [body];
+        const requestIds = messages.filter(message => isJSONRPCRequest(message)).map(message => message.id);
+        if (requestIds.length === 0) {
+            return;
         }
 
-        const taskList = filteredTasks.map(task => {
-            const executionInfo = task.execution ? 
-                `\n  Execution: ${task.execution.type} - ${task.execution.command || 'custom'}` : '';
-            const groupInfo = task.group !== 'none' ? `\n  Group: ${task.group}` : '';
-            const scopeInfo = `\n  Scope: ${task.scope}`;
-            const backgroundInfo = task.isBackground ? '\n  Background: true' : '';
-            
-            return `• ${task.name} (${task.source})${executionInfo}${groupInfo}${scopeInfo}${backgroundInfo}`;
-        }).join('\n');
-
-        const summary = `Found ${filteredTasks.length} tasks${args.filter ? ` matching filter '${args.filter}'` : ''}:\n\n${taskList}`;
-
-        return {
-            content: [{
-                type: 'text',
-                text: summary
-            }]
-        };
+        res.on('close', () => {
+            if (res.writableFinished) {
+                return;
+            }
+            for (const requestId of requestIds) {
+                this.logger.info('MCP client disconnected during request, cancelling it', { requestId });
+                transport.onmessage?.({
+                    jsonrpc: '2.0',
+                    method: 'notifications/cancelled',
+                    params: { requestId, reason: 'Client disconnected' }
+                });
+            }
+        });
     }
 
-    private async executeTask(args: any): Promise<any> {
-        const result = await this.taskProvider.executeTask(args.taskName, args.source);
-        
-        const statusText = result.success ? 'SUCCESS' : 'FAILED';
-        const exitCodeText = result.exitCode !== undefined ? ` (exit code: ${result.exitCode})` : '';
-        const durationText = `Duration: ${result.duration}ms`;
-        const outputText = result.output ? `\nOutput:\n${result.output}` : '';
-        const errorText = result.error ? `\nError:\n${result.error}` : '';
-
-        const responseText = `Task '${result.taskName}' execution ${statusText}${exitCodeText}\n${durationText}${outputText}${errorText}`;
+    private async createSession(): Promise<MCPSession> {
+        const server = new McpServer({
+            name: 'vscode-task-server',
+            version: '1.0.0'
+        });
+        await this.tools.register(server);
+        this.resources.register(server);
+        this.prompts.register(server);
+
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (sessionId) => {
+                this.sessions.set(sessionId, { server, transport });
+                this.logger.info('MCP session initialized', { sessionId });
+            }
+        });
 
-        return {
-            content: [{
-                type: 'text',
-                text: responseText
-            }],
-            isError: !result.success
+        transport.onclose = () => {
+            if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+                this.logger.info('MCP session closed', { sessionId: transport.sessionId });
+            }
         };
+
+        await server.connect(transport);
+        return { server, transport };
     }
 
-    private async getRunningTasks(): Promise<any> {
-        const runningTasks = await this.taskProvider.getRunningTasks();
-        
-        if (runningTasks.length === 0) {
-            return {
-                content: [{
-                    type: 'text',
-                    text: 'No tasks are currently running.'
-                }]
-            };
+    private async closeSession(sessionId: string, session: MCPSession): Promise<void> {
+        this.sessions.delete(sessionId);
+        try {
+            await session.transport.close();
+            await session.server.close();
+        } catch (error) {
+            this.logger.warn('Error closing MCP session', {
+                sessionId,
+                error: error instanceof Error ? error.message : error
+            });
         }
-
-        const taskList = runningTasks.map(task => {
-            const executionInfo = task.execution ? 
-                ` - ${task.execution.type}: ${task.execution.command || 'custom'}` : '';
-            return `• ${task.name} (${task.source})${executionInfo}`;
-        }).join('\n');
-
-        return {
-            content: [{
-                type: 'text',
-                text: `Currently running tasks (${runningTasks.length}):\n\n${taskList}`
-            }]
-        };
     }
 
-    private async terminateTask(args: any): Promise<any> {
-        const success = await this.taskProvider.terminateTask(args.taskName);
-        
-        const responseText = success 
-            ? `Task '${args.taskName}' has been terminated successfully.`
-            : `Failed to terminate task '${args.taskName}'. Task may not be running or termination failed.`;
-
-        return {
-            content: [{
-                type: 'text',
-                text: responseText
-            }],
-            isError: !success
-        };
+    /**
+     * Writes the discovery file that lets the stdio bridge find this server.
+     * Failing to write it only disables the bridge, so errors are not fatal.
+     */
+    private publishDiscoveryFile(): void {
+        try {
+            const file = writeDiscoveryFile({
+                pid: process.pid,
+                port: this.config.port,
+                url: this.getUrl(),
+                token: this.authToken,
+                workspaceFolders: (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath),
+                startedAt: new Date().toISOString()
+            });
+            this.logger.debug('Wrote MCP server discovery file', { file });
+        } catch (error) {
+            this.logger.warn('Failed to write MCP server discovery file', {
+                error: error instanceof Error ? error.message : error
+            });
+        }
     }
 
-    private async getTaskDetails(args: any): Promise<any> {
-        const tasks = await this.taskProvider.getAllTasks();
-        let targetTask = tasks.find(task => task.name === args.taskName);
-        
-        if (!targetTask && args.source) {
-            targetTask = tasks.find(task => task.name === args.taskName && task.source === args.source);
+    private withdrawDiscoveryFile(): void {
+        try {
+            removeDiscoveryFile(process.pid);
+        } catch (error) {
+            this.logger.warn('Failed to remove MCP server discovery file', {
+                error: error instanceof Error ? error.message : error
+            });
         }
+    }
 
-        if (!targetTask) {
-            return {
-                content: [{
-                    type: 'text',
-                    text: `Task '${args.taskName}' not found.`
-                }],
-                isError: true
-            };
-        }
+    private getSessionId(req: IncomingMessage): string | undefined {
+        const header = req.headers['mcp-session-id'];
+        return Array.isArray(header) ? header[0] : header;
+    }
 
-        const details = [
-            `Task Details for '${targetTask.name}':`,
-            `Source: ${targetTask.source}`,
-            `Group: ${targetTask.group || 'none'}`,
-            `Scope: ${targetTask.scope}`,
-            `Background: ${targetTask.isBackground || false}`
-        ];
-
-        if (targetTask.execution) {
-            details.push(`Execution Type: ${targetTask.execution.type}`);
-            if (targetTask.execution.command) {
-                details.push(`Command: ${targetTask.execution.command}`);
-            }
-            if (targetTask.execution.args && targetTask.execution.args.length > 0) {
-                details.push(`Arguments: ${targetTask.execution.args.join(' ')}`);
-            }
-        }
+    private readBody(req: IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let body = '';
+            req.on('data', (chunk: Buffer) => {
+                body += chunk.toString();
+            });
+            req.on('end', () => resolve(body));
+            req.on('error', reject);
+        });
+    }
 
-        if (targetTask.problemMatchers && targetTask.problemMatchers.length > 0) {
-            details.push(`Problem Matchers: ${targetTask.problemMatchers.join(', ')}`);
+    private setCorsHeaders(res: ServerResponse, origin: string | undefined): void {
+        if (!origin) {
+            return;
         }
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+        res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
 
-        details.push(`Definition: ${JSON.stringify(targetTask.definition, null, 2)}`);
+    private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+            jsonrpc: '2.0',
+            id: null,
+            error: { code, message }
+        }));
+    }
 
-        return {
-            content: [{
-                type: 'text',
-                text: details.join('\n')
-            }]
-        };
+    /**
+     * URL that local clients should connect to. A wildcard bind address is
+     * reached through loopback.
+     */
+    getUrl(): string {
+        const host = this.config.host === '0.0.0.0' || this.config.host === '::' ? '127.0.0.1' : this.config.host;
+        return `http://${host.includes(':') ? `[${host}]` : host}:${this.config.port}/mcp`;
     }
 
     getServerInfo(): any {
         return {
             running: this.isRunning,
             transport: 'streamable-http',
+            host: this.config.host,
             port: this.config.port,
+            sessions: this.sessions.size,
             serverName: 'vscode-task-server',
             version: '1.0.0'
         };
     }
-}
\ No newline at end of file
+}
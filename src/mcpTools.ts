@@ -0,0 +1,947 @@
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TaskInfo, TaskExecutionResult, TaskRunInfo, TaskExecutionOverrides, TaskReadinessOptions, RunCommandRequest, TaskHistoryRecord, TaskHistoryQuery, TaskSelector, TaskTimeoutAction, MCPServerConfig } from './types';
+import { TaskProvider } from './taskProvider';
+import { TaskAuthoring } from './taskAuthoring';
+import { toMermaid } from './taskGraph';
+import { formatProblems } from './taskProblems';
+import { createTaskMatcher, filterTask, selectTask, getScopeFolder } from './taskSelector';
+import { RunProgressReporter, LoggingSession } from './progressReporter';
+import { buildTaskTools, TaskToolDefinition } from './taskTools';
+import {
+    taskInfoSchema,
+    taskListShape,
+    taskRunShape,
+    historyRecordSchema,
+    taskGraphShape,
+    backgroundStatusShape,
+    taskOutputShape,
+    taskProblemsShape,
+    taskFileEditShape
+} from './toolSchemas';
+import { Logger } from './logger';
+
+// Annotations of the tools that only read task state
+const READ_ONLY = { readOnlyHint: true, openWorldHint: false };
+
+// Parameters that single out a task when its name exists in several workspace folders
+const taskIdParam = z.string().optional().describe('Fully qualified task ID, <scope>/<source>/<name> (see list_tasks). Use it when a task name is ambiguous');
+const folderParam = z.string().optional().describe('Workspace folder (name or URI) the task belongs to');
+
+const terminateShape = {
+    terminated: z.boolean(),
+    taskName: z.string().optional(),
+    taskId: z.string().optional(),
+    runId: z.string().optional()
+};
+
+export class MCPTools {
+    private taskProvider: TaskProvider;
+    private taskAuthoring: TaskAuthoring;
+    private config: MCPServerConfig;
+    private logger: Logger;
+
+    constructor(taskProvider: TaskProvider, taskAuthoring: TaskAuthoring, config: MCPServerConfig) {
+        this.taskProvider = taskProvider;
+        this.taskAuthoring = taskAuthoring;
+        this.config = config;
+        this.logger = Logger.getInstance();
+    }
+
+    /**
+     * Registers all task tools on an MCP server instance. Each session gets its
+     * own McpServer, so this runs once per connected client.
+     */
+    async register(server: McpServer): Promise<void> {
+        // Runs report their output as log messages, filtered by the level the client sets
+        const logging: LoggingSession = { level: 'info' };
+        server.server.registerCapabilities({ logging: {} });
+        server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+            logging.level = request.params.level;
+            return {};
+        });
+
+        server.registerTool('list_tasks', {
+            description: 'List all available VSCode tasks in the workspace, grouped by workspace folder',
+            inputSchema: {
+                filter: z.string().optional().describe('Optional filter to match task names or sources'),
+                folder: z.string().optional().describe('Only list the tasks of this workspace folder (name or URI)'),
+                refresh: z.boolean().optional().describe('Fetch the task list again instead of using the cached one (default: false). The cache is refreshed automatically when tasks.json or package.json files change')
+            },
+            outputSchema: taskListShape,
+            annotations: READ_ONLY
+        }, (args) => this.runTool('list_tasks', () => this.executeListTasks(args)));
+
+        server.registerTool('execute_task', {
+            description: 'Execute a specific VSCode task by name. Runs wait in a queue while the concurrency limit is reached. If the task is already running, the run is queued behind it, rejected, restarts it or returns the running instance, as configured for the task',
+            inputSchema: {
+                taskName: z.string().optional().describe('Name of the task to execute'),
+                taskId: taskIdParam,
+                source: z.string().optional().describe('Optional source of the task (e.g., npm, grunt, workspace)'),
+                folder: folderParam,
+                wait: z.boolean().optional().describe('Wait for the task to finish (default: true). When false, returns a run ID immediately for use with get_task_result or wait_for_task'),
+                inputs: z.record(z.string()).optional().describe('Values for the ${input:...} variables the task uses, keyed by input ID (see get_task_details)'),
+                args: z.array(z.string()).optional().describe('Extra arguments appended to the task command'),
+                env: z.record(z.string()).optional().describe('Environment variables to set for this run'),
+                cwd: z.string().optional().describe('Working directory for this run, absolute or relative to the workspace folder of the task'),
+                readyPattern: z.string().optional().describe('Regular expression; the task counts as ready once a line of its output matches. Background tasks are waited on until ready instead of until they exit'),
+                readyPort: z.number().int().min(1).max(65535).optional().describe('TCP port; the task counts as ready once the port accepts connections'),
+                readyHost: z.string().optional().describe('Host to check readyPort on (default: 127.0.0.1)'),
+                timeoutMs: z.number().int().positive().optional().describe('How long to wait for the task, including time spent in the queue (default: mcpTaskServer.defaultTimeoutSeconds or a matching mcpTaskServer.taskTimeouts rule). Applies when wait is true'),
+                onTimeout: z.enum(['terminate', 'keepRunning']).optional().describe('On timeout, terminate the task or leave it running and return its run ID; either way the result has status timedOut (default: mcpTaskServer.onTimeout)')
+            },
+            outputSchema: taskRunShape,
+            annotations: { readOnlyHint: false, destructiveHint: true }
+        }, (args, extra) => this.runTool('execute_task', () => this.executeTask(args, extra.signal, new RunProgressReporter(this.taskProvider, extra, logging))));
+
+        server.registerTool('run_command', {
+            description: 'Run an ad-hoc command that is not defined as a task. It runs as a transient task in the VSCode terminal. Only allowlisted executables may be run, and arguments are passed as-is without shell interpretation',
+            inputSchema: {
+                command: z.string().describe('Executable to run, e.g. npm or git'),
+                args: z.array(z.string()).optional().describe('Arguments passed to the executable'),
+                cwd: z.string().optional().describe('Working directory, absolute or relative to the first workspace folder (default: the first workspace folder)'),
+                env: z.record(z.string()).optional().describe('Environment variables to set for the command'),
+                timeoutMs: z.number().int().positive().optional().describe('Terminate the command if it runs longer than this many milliseconds (default: mcpTaskServer.runCommand.timeoutMs)')
+            },
+            outputSchema: taskRunShape,
+            annotations: { readOnlyHint: false, destructiveHint: true }
+        }, (args, extra) => this.runTool('run_command', () => this.runCommand(args, extra.signal, new RunProgressReporter(this.taskProvider, extra, logging))));
+
+        server.registerTool('get_task_result', {
+            description: 'Get the status and result of a task run started with execute_task',
+            inputSchema: {
+                runId: z.string().describe('Run ID returned by execute_task')
+            },
+            outputSchema: taskRunShape,
+            annotations: READ_ONLY
+        }, (args) => this.runTool('get_task_result', () => this.getTaskResult(args)));
+
+        server.registerTool('wait_for_task', {
+            description: 'Wait for a task run to finish, up to a timeout, and return its status and result',
+            inputSchema: {
+                runId: z.string().describe('Run ID returned by execute_task'),
+                timeoutMs: z.number().int().nonnegative().optional().describe('Maximum time to wait in milliseconds (default: 30000)')
+            },
+            outputSchema: taskRunShape,
+            annotations: READ_ONLY
+        }, (args) => this.runTool('wait_for_task', () => this.waitForTask(args)));
+
+        server.registerTool('get_running_tasks', {
+            description: 'Get a list of currently running VSCode tasks, followed by the runs waiting in the queue with their position and wait time',
+            outputSchema: { tasks: z.array(taskInfoSchema) },
+            annotations: READ_ONLY
+        }, () => this.runTool('get_running_tasks', () => this.getRunningTasks()));
+
+        server.registerTool('terminate_task', {
+            description: 'Terminate a running VSCode task by run ID, or by name when only one run of it is active',
+            inputSchema: {
+                taskName: z.string().optional().describe('Name of the task to terminate'),
+                taskId: taskIdParam,
+                folder: folderParam,
+                runId: z.string().optional().describe('Run ID of the task run to terminate (see get_running_tasks)')
+            },
+            outputSchema: terminateShape,
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: false }
+        }, (args) => this.runTool('terminate_task', () => this.terminateTask(args)));
+
+        server.registerTool('get_task_output', {
+            description: 'Get the full captured output log of a task run, or of the most recent run of a VSCode task',
+            inputSchema: {
+                taskName: z.string().optional().describe('Name of the task to get the output of its most recent run for'),
+                taskId: taskIdParam,
+                folder: folderParam,
+                runId: z.string().optional().describe('Run ID of a specific task run')
+            },
+            outputSchema: taskOutputShape,
+            annotations: READ_ONLY
+        }, (args) => this.runTool('get_task_output', () => this.getTaskOutput(args)));
+
+        server.registerTool('get_task_problems', {
+            description: 'Get the diagnostics (errors, warnings) that the problem matchers of a task reported during a run, or during the most recent run of a VSCode task',
+            inputSchema: {
+                taskName: z.string().optional().describe('Name of the task to get the problems of its most recent run for'),
+                taskId: taskIdParam,
+                folder: folderParam,
+                runId: z.string().optional().describe('Run ID of a specific task run')
+            },
+            outputSchema: taskProblemsShape,
+            annotations: READ_ONLY
+        }, (args) => this.runTool('get_task_problems', () => this.getTaskProblems(args)));
+
+        server.registerTool('get_background_task_status', {
+            description: 'Get the readiness and current watch-cycle state of a background task (e.g. a dev server or a watch build), with its latest problems',
+            inputSchema: {
+                taskName: z.string().optional().describe('Name of the background task to get the status of its most recent run for'),
+                taskId: taskIdParam,
+                folder: folderParam,
+                runId: z.string().optional().describe('Run ID of a specific background task run')
+            },
+            outputSchema: backgroundStatusShape,
+            annotations: READ_ONLY
+        }, (args) => this.runTool('get_background_task_status', () => this.getBackgroundTaskStatus(args)));
+
+        server.registerTool('get_task_details', {
+            description: 'Get detailed information about a specific VSCode task',
+            inputSchema: {
+                taskName: z.string().optional().describe('Name of the task to get details for'),
+                taskId: taskIdParam,
+                source: z.string().optional().describe('Optional source of the task'),
+                folder: folderParam
+            },
+            outputSchema: { task: taskInfoSchema },
+            annotations: READ_ONLY
+        }, (args) => this.runTool('get_task_details', () => this.getTaskDetails(args)));
+
+        server.registerTool('get_task_history', {
+            description: 'Query the persistent history of finished task runs (started by agents or by the user), newest first',
+            inputSchema: {
+                taskName: z.string().optional().describe('Only runs of this task'),
+                taskId: z.string().optional().describe('Only runs of the task with this fully qualified ID'),
+                source: z.string().optional().describe('Only runs of tasks from this source'),
+                folder: z.string().optional().describe('Only runs of tasks from this workspace folder (name or URI)'),
+                status: z.enum(['succeeded', 'failed', 'terminated', 'cancelled', 'timedOut']).optional().describe('Only runs that ended with this status'),
+                trigger: z.enum(['agent', 'human']).optional().describe('Only runs started through MCP (agent) or by the user in VSCode (human)'),
+                since: z.string().optional().describe('Only runs started at or after this ISO 8601 time'),
+                until: z.string().optional().describe('Only runs started at or before this ISO 8601 time'),
+                limit: z.number().int().positive().optional().describe('Maximum number of runs to return (default: 20)')
+            },
+            outputSchema: { runs: z.array(historyRecordSchema) },
+            annotations: READ_ONLY
+        }, (args) => this.runTool('get_task_history', () => this.getTaskHistory(args)));
+
+        server.registerTool('get_last_run', {
+            description: 'Get the most recent finished run of a task from the run history, including its output and problem summary',
+            inputSchema: {
+                taskName: z.string().optional().describe('Name of the task'),
+                taskId: taskIdParam,
+                source: z.string().optional().describe('Optional source of the task'),
+                folder: folderParam,
+                status: z.enum(['succeeded', 'failed', 'terminated', 'cancelled', 'timedOut']).optional().describe('Only consider runs that ended with this status')
+            },
+            outputSchema: { run: historyRecordSchema },
+            annotations: READ_ONLY
+        }, (args) => this.runTool('get_last_run', () => this.getLastRun(args)));
+
+        server.registerTool('get_task_graph', {
+            description: 'Get the dependency graph (dependsOn) of the VSCode tasks across all workspace folders, as JSON and as a Mermaid flowchart, including dependency cycles and references to missing tasks',
+            inputSchema: {
+                taskName: z.string().optional().describe('Only include this task and the tasks it depends on'),
+                taskId: taskIdParam,
+                source: z.string().optional().describe('Optional source of the task'),
+                folder: folderParam
+            },
+            outputSchema: taskGraphShape,
+            annotations: READ_ONLY
+        }, (args) => this.runTool('get_task_graph', () => this.getTaskGraph(args)));
+
+        server.registerTool('create_task', {
+            description: "Add a task to a workspace folder's .vscode/tasks.json. The user is asked to confirm the edit",
+            inputSchema: {
+                task: z.object({
+                    label: z.string(),
+                    type: z.string()
+                }).passthrough().describe('Task as it would appear in tasks.json, e.g. { "label": "test", "type": "shell", "command": "npm test", "group": "test" }'),
+                folder: z.string().optional().describe('Workspace folder (name or URI) whose tasks.json to edit (required when several folders are open)')
+            },
+            outputSchema: taskFileEditShape,
+            annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false }
+        }, (args) => this.runTool('create_task', () => this.createTask(args)));
+
+        server.registerTool('update_task', {
+            description: "Change properties of a task in a workspace folder's .vscode/tasks.json, keeping comments and formatting. The user is asked to confirm the edit",
+            inputSchema: {
+                label: z.string().describe('Label of the task to update'),
+                changes: z.record(z.any()).describe('Top-level task properties to set; a property set to null is removed'),
+                folder: z.string().optional().describe('Workspace folder (name or URI) whose tasks.json to edit (required when several folders are open)')
+            },
+            outputSchema: taskFileEditShape,
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false }
+        }, (args) => this.runTool('update_task', () => this.updateTask(args)));
+
+        server.registerTool('delete_task', {
+            description: "Remove a task from a workspace folder's .vscode/tasks.json. The user is asked to confirm the edit",
+            inputSchema: {
+                label: z.string().describe('Label of the task to delete'),
+                folder: z.string().optional().describe('Workspace folder (name or URI) whose tasks.json to edit (required when several folders are open)')
+            },
+            outputSchema: taskFileEditShape,
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: false }
+        }, (args) => this.runTool('delete_task', () => this.deleteTask(args)));
+
+        await this.registerTaskTools(server, logging);
+    }
+
+    /**
+     * With mcpTaskServer.taskTools.enabled, registers one tool per task (of the
+     * configured groups) and keeps the tools in step with the task list. The
+     * SDK sends notifications/tools/list_changed when tools come and go.
+     */
+    private async registerTaskTools(server: McpServer, logging: LoggingSession): Promise<void> {
+        if (!this.config.taskToolsEnabled) {
+            return;
+        }
+
+        const groups = this.config.taskToolGroups;
+        const registered = new Map<string, { tool: RegisteredTool; signature: string }>();
+        const sync = async () => {
+            const tasks = (await this.taskProvider.getAllTasks())
+                .filter(task => groups.length === 0 || groups.includes(task.group || 'none'));
+            const signatures = new Map<string, string>();
+            const definitions = buildTaskTools(tasks);
+            definitions.forEach(definition => signatures.set(definition.name,
+                JSON.stringify([definition.task.id, definition.description, definition.task.inputs])));
+
+            // Tools of removed or changed tasks are dropped; changed ones are registered again below
+            for (const [name, entry] of registered) {
+                if (signatures.get(name) !== entry.signature) {
+                    entry.tool.remove();
+                    registered.delete(name);
+                }
+            }
+            for (const definition of definitions) {
+                if (!registered.has(definition.name)) {
+                    registered.set(definition.name, {
+                        tool: this.registerTaskTool(server, definition, logging),
+                        signature: signatures.get(definition.name)!
+                    });
+                }
+            }
+            this.logger.debug('Task tools updated', { count: registered.size });
+        };
+
+        // Updates run one at a time so that overlapping task list changes don't race
+        let pending = Promise.resolve();
+        const update = () => {
+            pending = pending.then(sync).catch(error => {
+                this.logger.warn('Failed to update task tools', {
+                    error: error instanceof Error ? error.message : error
+                });
+            });
+            return pending;
+        };
+
+        const listener = this.taskProvider.onDidChangeTasks(() => update());
+        const onclose = server.server.onclose;
+        server.server.onclose = () => {
+            onclose?.();
+            listener.dispose();
+        };
+        await update();
+    }
+
+    private registerTaskTool(server: McpServer, definition: TaskToolDefinition, logging: LoggingSession): RegisteredTool {
+        return server.registerTool(definition.name, {
+            description: definition.description,
+            inputSchema: definition.inputSchema,
+            outputSchema: taskRunShape,
+            annotations: { readOnlyHint: false, destructiveHint: true }
+        }, (args, extra) => this.runTool(definition.name, () => this.executeTask(
+            { taskId: definition.task.id, inputs: args as { [id: string]: string } },
+            extra.signal,
+            new RunProgressReporter(this.taskProvider, extra, logging))));
+    }
+
+    private async runTool(name: string, handler: () => Promise<CallToolResult>): Promise<CallToolResult> {
+        this.logger.info(`Tool called: ${name}`);
+        try {
+            return await handler();
+        } catch (error) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `Error executing tool '${name}': ${error instanceof Error ? error.message : 'Unknown error'}`
+                }],
+                isError: true
+            };
+        }
+    }
+
+    private async executeListTasks(args: { filter?: string; folder?: string; refresh?: boolean }): Promise<CallToolResult> {
+        let tasks = await this.taskProvider.getAllTasks(args.refresh);
+        if (args.folder) {
+            tasks = tasks.filter(createTaskMatcher({ folder: args.folder }));
+        }
+        let filteredTasks = tasks;
+
+        if (args.filter) {
+            const filterLower = args.filter.toLowerCase();
+            filteredTasks = tasks.filter(task => 
+                task.name.toLowerCase().includes(filterLower) ||
+                task.source.toLowerCase().includes(filterLower) ||
+                (task.group && task.group.toLowerCase().includes(filterLower))
+            );
+        }
+
+        // Tasks are grouped by scope: one group per workspace folder, plus workspace and user tasks
+        const groups: { scope: string; folder?: string; tasks: TaskInfo[] }[] = [];
+        for (const task of filteredTasks) {
+            let group = groups.find(candidate => candidate.scope === task.scope);
+            if (!group) {
+                group = { scope: task.scope, folder: getScopeFolder(task.scope), tasks: [] };
+                groups.push(group);
+            }
+            group.tasks.push(task);
+        }
+
+        const taskList = groups.map(group => {
+            const heading = group.folder !== undefined ? `Folder '${group.folder}'` : `Scope '${group.scope}'`;
+            const entries = group.tasks.map(task => {
+                const executionInfo = task.execution ? 
+                    `\n  Execution: ${task.execution.type} - ${task.execution.command || 'custom'}` : '';
+                const groupInfo = task.group !== 'none' ? `\n  Group: ${task.group}` : '';
+                const backgroundInfo = task.isBackground ? '\n  Background: true' : '';
+                
+                return `• ${task.name} (${task.source})\n  ID: ${task.id}${executionInfo}${groupInfo}${backgroundInfo}`;
+            }).join('\n');
+            return `${heading} (${group.tasks.length} tasks):\n${entries}`;
+        }).join('\n\n');
+
+        const summary = `Found ${filteredTasks.length} tasks${args.filter ? ` matching filter '${args.filter}'` : ''}:\n\n${taskList}`;
+
+        return {
+            content: [{
+                type: 'text',
+                text: summary
+            }],
+            structuredContent: { folders: groups }
+        };
+    }
+
+    private async executeTask(args: {
+        taskName?: string;
+        taskId?: string;
+        source?: string;
+        folder?: string;
+        wait?: boolean;
+        inputs?: { [id: string]: string };
+        args?: string[];
+        env?: { [key: string]: string };
+        cwd?: string;
+        readyPattern?: string;
+        readyPort?: number;
+        readyHost?: string;
+        timeoutMs?: number;
+        onTimeout?: TaskTimeoutAction;
+    }, signal: AbortSignal, reporter: RunProgressReporter): Promise<CallToolResult> {
+        const overrides: TaskExecutionOverrides = {
+            inputs: args.inputs,
+            args: args.args,
+            env: args.env,
+            cwd: args.cwd
+        };
+        const readiness: TaskReadinessOptions = {
+            pattern: args.readyPattern,
+            port: args.readyPort,
+            host: args.readyHost
+        };
+
+        if (args.wait === false) {
+            const run = await this.taskProvider.startTask(args, overrides, readiness);
+            const stateText = run.attached
+                ? `is already ${run.status === 'queued' ? 'queued' : 'running'}; returning that run`
+                : run.queue ? `queued at position ${run.queue.position}. ${run.queue.reason}` : 'started';
+            return {
+                content: [{
+                    type: 'text',
+                    text: `Task '${run.taskName}' ${stateText}.\nRun ID: ${run.runId}\nUse get_task_result or wait_for_task with this run ID to follow it.`
+                }],
+                structuredContent: { ...run }
+            };
+        }
+
+        try {
+            const result = await this.taskProvider.executeTask(args, overrides, readiness, {
+                onStarted: run => reporter.attach(run),
+                signal,
+                timeoutMs: args.timeoutMs,
+                onTimeout: args.onTimeout
+            });
+            return this.toResultContent(result);
+        } finally {
+            reporter.dispose();
+        }
+    }
+
+    private async runCommand(args: RunCommandRequest, signal: AbortSignal, reporter: RunProgressReporter): Promise<CallToolResult> {
+        try {
+            const result = await this.taskProvider.runCommand(args, { onStarted: run => reporter.attach(run), signal });
+            return this.toResultContent(result);
+        } finally {
+            reporter.dispose();
+        }
+    }
+
+    private async getTaskResult(args: { runId: string }): Promise<CallToolResult> {
+        const run = this.taskProvider.getTaskResult(args.runId);
+
+        if (!run) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `No task run found with ID '${args.runId}'.`
+                }],
+                isError: true
+            };
+        }
+
+        return this.formatRunInfo(run);
+    }
+
+    private async waitForTask(args: { runId: string; timeoutMs?: number }): Promise<CallToolResult> {
+        const timeoutMs = args.timeoutMs ?? 30000;
+        const run = await this.taskProvider.waitForTask(args.runId, timeoutMs);
+        return this.formatRunInfo(run);
+    }
+
+    private formatRunInfo(run: TaskRunInfo): CallToolResult {
+        if (!run.result) {
+            const elapsed = Date.now() - run.startTime;
+            const processText = run.lifecycle.processId !== undefined ? `, process ID: ${run.lifecycle.processId}` : '';
+            const stateText = run.queue
+                ? `is queued at position ${run.queue.position} (${run.queue.reason}, waiting for ${run.queue.waitingMs}ms)`
+                : run.status === 'ready' ? 'is ready and still running in the background' : 'is still running';
+            return {
+                content: [{
+                    type: 'text',
+                    text: `Task '${run.taskName}' ${stateText} (run ID: ${run.runId}, state: ${run.lifecycle.state}${processText}, elapsed: ${elapsed}ms).`
+                }],
+                structuredContent: { ...run }
+            };
+        }
+
+        return this.toResultContent(run.result, run);
+    }
+
+    /**
+     * Text for the model plus the run as structured content. The run info adds
+     * the source and lifecycle when the caller has it.
+     */
+    private toResultContent(result: TaskExecutionResult, run?: TaskRunInfo): CallToolResult {
+        const content: CallToolResult['content'] = [{
+            type: 'text',
+            text: this.formatExecutionResult(result)
+        }];
+        if (result.problems && result.problems.length > 0) {
+            content.push({
+                type: 'text',
+                text: JSON.stringify({ problems: result.problems }, null, 2)
+            });
+        }
+
+        return {
+            content,
+            structuredContent: {
+                ...(run || { runId: result.runId, taskName: result.taskName, startTime: result.startTime }),
+                status: result.status,
+                result
+            },
+            isError: !result.success
+        };
+    }
+
+    private formatExecutionResult(result: TaskExecutionResult): string {
+        const ready = result.status === 'ready';
+        const interrupted = result.status === 'terminated' || result.status === 'cancelled';
+        const statusText = ready ? 'READY' : result.status === 'timedOut' ? 'TIMED OUT'
+            : interrupted ? result.status.toUpperCase() : result.success ? 'SUCCESS' : 'FAILED';
+        const exitCodeText = result.exitCode !== undefined ? ` (exit code: ${result.exitCode})` : '';
+        const runIdText = result.runId ? `\nRun ID: ${result.runId}` : '';
+        const processText = result.processId !== undefined ? `\nProcess ID: ${result.processId}` : '';
+        const readyText = ready
+            ? `\nReady: ${result.readyReason}. The task keeps running; use get_background_task_status to follow it and terminate_task to stop it`
+            : '';
+        const timingText = `\nStarted: ${new Date(result.startTime).toISOString()}\n${ready ? 'Ready at' : result.status === 'timedOut' ? 'Timed out at' : 'Ended'}: ${new Date(result.endTime).toISOString()}`;
+        const durationText = `Duration: ${result.duration}ms`;
+        const truncatedText = result.outputTruncated ? ' (truncated, use get_task_output for the full log)' : '';
+        const outputText = result.output ? `\nOutput${truncatedText}:\n${result.output}` : '';
+        const errorText = result.error ? `\nError:\n${result.error}` : '';
+        const dependenciesText = result.dependencies && result.dependencies.length > 0
+            ? `\nDependencies:\n${result.dependencies.map(dependency => {
+                const exitCode = dependency.exitCode !== undefined ? ` (exit code: ${dependency.exitCode})` : '';
+                const runId = dependency.runId ? ` [run ID: ${dependency.runId}]` : '';
+                return `  ${dependency.taskName} (${dependency.source}): ${dependency.status}${exitCode}${runId}`;
+            }).join('\n')}`
+            : '';
+        const problemsText = result.problems && result.problems.length > 0
+            ? `\nProblems (${result.problems.length}):\n${formatProblems(result.problems)}`
+            : '';
+
+        return `Task '${result.taskName}' execution ${statusText}${exitCodeText}${runIdText}${processText}${readyText}${timingText}\n${durationText}${dependenciesText}${outputText}${errorText}${problemsText}`;
+    }
+
+    private async getRunningTasks(): Promise<CallToolResult> {
+        const runningTasks = await this.taskProvider.getRunningTasks();
+        
+        if (runningTasks.length === 0) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: 'No tasks are currently running.'
+                }],
+                structuredContent: { tasks: [] }
+            };
+        }
+
+        const taskList = runningTasks.map(task => {
+            const executionInfo = task.execution ? 
+                ` - ${task.execution.type}: ${task.execution.command || 'custom'}` : '';
+            const runIdInfo = task.runId ? ` [run ID: ${task.runId}]` : '';
+            const lifecycle = task.lifecycle;
+            let lifecycleInfo = '';
+            if (task.queue) {
+                lifecycleInfo = `\n  State: queued at position ${task.queue.position}, waiting for ${task.queue.waitingMs}ms\n  ${task.queue.reason}`;
+            } else if (lifecycle) {
+                const processInfo = lifecycle.processId !== undefined ? `, process ID: ${lifecycle.processId}` : '';
+                const startedAt = lifecycle.startedAt ?? lifecycle.queuedAt;
+                const elapsedInfo = startedAt !== undefined ? `, running for ${Date.now() - startedAt}ms` : '';
+                lifecycleInfo = `\n  State: ${lifecycle.state}${processInfo}${elapsedInfo}`;
+            }
+            return `• ${task.name} (${task.source})${executionInfo}${runIdInfo}${lifecycleInfo}`;
+        }).join('\n');
+
+        const queuedCount = runningTasks.filter(task => task.queue).length;
+        const queuedInfo = queuedCount > 0 ? `, ${queuedCount} of them queued` : '';
+        return {
+            content: [{
+                type: 'text',
+                text: `Currently running tasks (${runningTasks.length}${queuedInfo}):\n\n${taskList}`
+            }],
+            structuredContent: { tasks: runningTasks }
+        };
+    }
+
+    private async terminateTask(args: TaskSelector & { runId?: string }): Promise<CallToolResult> {
+        if (!args.taskName && !args.taskId && !args.runId) {
+            throw new Error('Either taskName, taskId or runId is required');
+        }
+
+        // Errors such as ambiguous selectors or policy denials reach the client as they are
+        await this.taskProvider.terminateTask(args, args.runId);
+        const target = args.runId ? `run '${args.runId}'` : `task '${args.taskId || args.taskName}'`;
+
+        return {
+            content: [{
+                type: 'text',
+                text: `Task ${target} has been terminated successfully.`
+            }],
+            structuredContent: { terminated: true, taskName: args.taskName, taskId: args.taskId, runId: args.runId }
+        };
+    }
+
+    private async getTaskOutput(args: TaskSelector & { runId?: string }): Promise<CallToolResult> {
+        if (!args.taskName && !args.taskId && !args.runId) {
+            throw new Error('Either taskName, taskId or runId is required');
+        }
+
+        const output = this.taskProvider.getTaskOutput(args, args.runId);
+
+        if (!output) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `No captured output found for ${args.runId ? `run '${args.runId}'` : `task '${args.taskId || args.taskName}'`}.`
+                }],
+                isError: true
+            };
+        }
+
+        const statusText = output.completed ? 'completed' : 'still running';
+        const truncatedText = output.truncated ? `, middle of log dropped, ${output.totalLength} characters total` : '';
+
+        return {
+            content: [{
+                type: 'text',
+                text: `Output of task '${output.taskName}' (${statusText}${truncatedText}):\n\n${output.output}`
+            }],
+            structuredContent: { ...output }
+        };
+    }
+
+    private async getTaskProblems(args: TaskSelector & { runId?: string }): Promise<CallToolResult> {
+        if (!args.taskName && !args.taskId && !args.runId) {
+            throw new Error('Either taskName, taskId or runId is required');
+        }
+
+        const info = this.taskProvider.getTaskProblems(args, args.runId);
+
+        if (!info) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `No task run found for ${args.runId ? `run '${args.runId}'` : `task '${args.taskId || args.taskName}'`}.`
+                }],
+                isError: true
+            };
+        }
+
+        const statusText = info.completed ? 'completed' : 'still running';
+        const summary = info.problems.length > 0
+            ? `Problems of task '${info.taskName}' (run ID: ${info.runId}, ${statusText}, ${info.problems.length} found):\n\n${formatProblems(info.problems)}`
+            : `No problems reported for task '${info.taskName}' (run ID: ${info.runId}, ${statusText}).`;
+
+        return {
+            content: [
+                { type: 'text', text: summary },
+                { type: 'text', text: JSON.stringify({ problems: info.problems }, null, 2) }
+            ],
+            structuredContent: { ...info }
+        };
+    }
+
+    private async getBackgroundTaskStatus(args: TaskSelector & { runId?: string }): Promise<CallToolResult> {
+        if (!args.taskName && !args.taskId && !args.runId) {
+            throw new Error('Either taskName, taskId or runId is required');
+        }
+
+        const status = this.taskProvider.getBackgroundTaskStatus(args, args.runId);
+
+        if (!status) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `No background task run found for ${args.runId ? `run '${args.runId}'` : `task '${args.taskId || args.taskName}'`}.`
+                }],
+                isError: true
+            };
+        }
+
+        const lines = [
+            `Background task '${status.taskName}' (run ID: ${status.runId}):`,
+            `Running: ${status.running}`,
+            `Ready: ${status.ready ? `yes, ${status.readyReason}` : 'no'}`,
+            `Watch cycle: ${status.cycleState} (${status.completedCycles} completed)`
+        ];
+        if (status.lastCycleStartedAt !== undefined) {
+            lines.push(`Last cycle started: ${new Date(status.lastCycleStartedAt).toISOString()}`);
+        }
+        if (status.lastCycleEndedAt !== undefined) {
+            lines.push(`Last cycle ended: ${new Date(status.lastCycleEndedAt).toISOString()}`);
+        }
+        lines.push(status.problems.length > 0
+            ? `Problems (${status.problems.length}):\n${formatProblems(status.problems)}`
+            : 'Problems: none');
+
+        return {
+            content: [
+                { type: 'text', text: lines.join('\n') },
+                { type: 'text', text: JSON.stringify({ problems: status.problems }, null, 2) }
+            ],
+            structuredContent: { ...status }
+        };
+    }
+
+    private async getTaskHistory(args: TaskSelector & {
+        status?: 'succeeded' | 'failed' | 'terminated' | 'cancelled' | 'timedOut';
+        trigger?: 'agent' | 'human';
+        since?: string;
+        until?: string;
+        limit?: number;
+    }): Promise<CallToolResult> {
+        const query: TaskHistoryQuery = {
+            taskName: args.taskName,
+            taskId: args.taskId,
+            source: args.source,
+            folder: args.folder,
+            status: args.status,
+            trigger: args.trigger,
+            since: this.parseTime(args.since, 'since'),
+            until: this.parseTime(args.until, 'until'),
+            limit: args.limit ?? 20
+        };
+        const records = this.taskProvider.getRunHistory(query);
+
+        if (records.length === 0) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: 'No runs in the history match the query.'
+                }],
+                structuredContent: { runs: [] }
+            };
+        }
+
+        const list = records.map(record => `• ${this.formatHistoryRecord(record)}`).join('\n');
+        const runs = records.map(({ output, error, ...summary }) => summary);
+        return {
+            content: [
+                { type: 'text', text: `Found ${records.length} runs:\n\n${list}` },
+                { type: 'text', text: JSON.stringify({ runs }, null, 2) }
+            ],
+            structuredContent: { runs }
+        };
+    }
+
+    private async getLastRun(args: TaskSelector & { status?: 'succeeded' | 'failed' | 'terminated' | 'cancelled' | 'timedOut' }): Promise<CallToolResult> {
+        if (!args.taskName && !args.taskId) {
+            throw new Error('Either taskName or taskId is required');
+        }
+
+        // Fails when runs of several tasks match, e.g. a task name used in several folders
+        const [record] = filterTask(this.taskProvider.getRunHistory(args), args,
+            run => ({ name: run.taskName, source: run.source, scope: run.scope }));
+
+        if (!record) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `No ${args.status ? `${args.status} ` : ''}runs of task '${args.taskId || args.taskName}' in the history.`
+                }],
+                isError: true
+            };
+        }
+
+        const outputText = record.output ? `\nOutput:\n${record.output}` : '';
+        const errorText = record.error ? `\nError:\n${record.error}` : '';
+        return {
+            content: [
+                { type: 'text', text: `Last run: ${this.formatHistoryRecord(record)}${outputText}${errorText}` },
+                { type: 'text', text: JSON.stringify(record, null, 2) }
+            ],
+            structuredContent: { run: record }
+        };
+    }
+
+    private formatHistoryRecord(record: TaskHistoryRecord): string {
+        const exitCode = record.exitCode !== undefined ? ` (exit code: ${record.exitCode})` : '';
+        const problems = record.problemSummary.total > 0
+            ? `, problems: ${record.problemSummary.errors} errors, ${record.problemSummary.warnings} warnings`
+            : '';
+        return `${record.taskName} (${record.source}): ${record.status.toUpperCase()}${exitCode}, started ${new Date(record.startTime).toISOString()} by ${record.trigger}, took ${record.duration}ms${problems} [run ID: ${record.runId}]`;
+    }
+
+    private parseTime(value: string | undefined, name: string): number | undefined {
+        if (value === undefined) {
+            return undefined;
+        }
+        const time = Date.parse(value);
+        if (isNaN(time)) {
+            throw new Error(`'${name}' is not a valid ISO 8601 time: ${value}`);
+        }
+        return time;
+    }
+
+    private async getTaskGraph(args: TaskSelector): Promise<CallToolResult> {
+        const graph = await this.taskProvider.getTaskGraph(args);
+        const root = args.taskId || args.taskName;
+
+        const summary = [
+            `Task graph${root ? ` of '${root}'` : ''}: ${graph.nodes.length} tasks, ${graph.edges.length} dependencies`
+        ];
+        if (graph.cycles.length > 0) {
+            summary.push(`Cycles (${graph.cycles.length}):`);
+            graph.cycles.forEach(cycle => summary.push(`  ${cycle.join(' -> ')}`));
+        }
+        if (graph.missing.length > 0) {
+            summary.push(`Missing references (${graph.missing.length}):`);
+            graph.missing.forEach(missing => summary.push(
+                `  ${missing.from} -> ${typeof missing.reference === 'string' ? missing.reference : JSON.stringify(missing.reference)}`));
+        }
+
+        const mermaid = toMermaid(graph);
+        return {
+            content: [
+                { type: 'text', text: summary.join('\n') },
+                { type: 'text', text: JSON.stringify(graph, null, 2) },
+                { type: 'text', text: `\`\`\`mermaid\n${mermaid}\n\`\`\`` }
+            ],
+            structuredContent: { ...graph, mermaid }
+        };
+    }
+
+    private async createTask(args: { task: { label: string; type: string; [property: string]: any }; folder?: string }): Promise<CallToolResult> {
+        const file = await this.taskAuthoring.createTask(args.task, args.folder);
+        this.taskProvider.invalidateTasks(`task '${args.task.label}' created`);
+        return {
+            content: [{
+                type: 'text',
+                text: `Task '${args.task.label}' was added to ${file}.`
+            }],
+            structuredContent: { label: args.task.label, file }
+        };
+    }
+
+    private async updateTask(args: { label: string; changes: { [property: string]: any }; folder?: string }): Promise<CallToolResult> {
+        const file = await this.taskAuthoring.updateTask(args.label, args.changes, args.folder);
+        this.taskProvider.invalidateTasks(`task '${args.label}' updated`);
+        return {
+            content: [{
+                type: 'text',
+                text: `Task '${args.label}' was updated in ${file} (${Object.keys(args.changes).join(', ')}).`
+            }],
+            structuredContent: { label: typeof args.changes.label === 'string' ? args.changes.label : args.label, file }
+        };
+    }
+
+    private async deleteTask(args: { label: string; folder?: string }): Promise<CallToolResult> {
+        const file = await this.taskAuthoring.deleteTask(args.label, args.folder);
+        this.taskProvider.invalidateTasks(`task '${args.label}' deleted`);
+        return {
+            content: [{
+                type: 'text',
+                text: `Task '${args.label}' was removed from ${file}.`
+            }],
+            structuredContent: { label: args.label, file }
+        };
+    }
+
+    private async getTaskDetails(args: TaskSelector): Promise<CallToolResult> {
+        const targetTask = selectTask(await this.taskProvider.getAllTasks(), args, task => task);
+
+        const details = [
+            `Task Details for '${targetTask.name}':`,
+            `ID: ${targetTask.id}`,
+            `Source: ${targetTask.source}`,
+            `Group: ${targetTask.group || 'none'}`,
+            `Scope: ${targetTask.scope}`,
+            `Background: ${targetTask.isBackground || false}`
+        ];
+
+        if (targetTask.execution) {
+            details.push(`Execution Type: ${targetTask.execution.type}`);
+            if (targetTask.execution.command) {
+                details.push(`Command: ${targetTask.execution.command}`);
+            }
+            if (targetTask.execution.args && targetTask.execution.args.length > 0) {
+                details.push(`Arguments: ${targetTask.execution.args.join(' ')}`);
+            }
+        }
+
+        if (targetTask.problemMatchers && targetTask.problemMatchers.length > 0) {
+            details.push(`Problem Matchers: ${targetTask.problemMatchers.join(', ')}`);
+        }
+
+        if (targetTask.dependsOn && targetTask.dependsOn.length > 0) {
+            const references = targetTask.dependsOn.map(reference => typeof reference === 'string' ? reference : JSON.stringify(reference));
+            details.push(`Depends On: ${references.join(', ')} (${targetTask.dependsOrder || 'parallel'})`);
+        }
+
+        if (targetTask.inputs && targetTask.inputs.length > 0) {
+            details.push('Inputs:');
+            for (const input of targetTask.inputs) {
+                const parts = [`type: ${input.type}`];
+                if (input.default !== undefined) {
+                    parts.push(`default: ${input.default}`);
+                }
+                if (input.options && input.options.length > 0) {
+                    parts.push(`options: ${input.options.join(', ')}`);
+                }
+                if (input.password) {
+                    parts.push('password');
+                }
+                const description = input.description ? ` - ${input.description}` : '';
+                details.push(`  ${input.id} (${parts.join('; ')})${description}`);
+            }
+        }
+
+        details.push(`Definition: ${JSON.stringify(targetTask.definition, null, 2)}`);
+
+        return {
+            content: [{
+                type: 'text',
+                text: details.join('\n')
+            }],
+            structuredContent: { task: targetTask }
+        };
+    }
+}
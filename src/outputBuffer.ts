@@ -0,0 +1,88 @@
+// Matches CSI/OSC escape sequences and other single-character ANSI escapes
+const ANSI_PATTERN = /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Accumulates task output with ANSI codes removed. Keeps the beginning of the
+ * log and a rolling tail, dropping the middle once the store limit is reached.
+ */
+export class OutputBuffer {
+    private head = '';
+    private tail = '';
+    private droppedLength = 0;
+    private pending = '';
+    private readonly halfLimit: number;
+
+    constructor(maxStoredLength: number = 10 * 1024 * 1024) {
+        this.halfLimit = Math.max(1, Math.floor(maxStoredLength / 2));
+    }
+
+    append(chunk: string): void {
+        // Hold back a trailing partial escape sequence until the next chunk arrives
+        let data = this.pending + chunk;
+        this.pending = '';
+        const lastEscape = data.lastIndexOf('\u001b');
+        if (lastEscape !== -1 && lastEscape > data.length - 32 && !this.isCompleteEscape(data.slice(lastEscape))) {
+            this.pending = data.slice(lastEscape);
+            data = data.slice(0, lastEscape);
+        }
+
+        let text = stripAnsi(data).replace(/\r\n/g, '\n');
+        if (this.head.length < this.halfLimit) {
+            const room = this.halfLimit - this.head.length;
+            this.head += text.slice(0, room);
+            text = text.slice(room);
+        }
+
+        if (text.length > 0) {
+            this.tail += text;
+            if (this.tail.length > this.halfLimit) {
+                const excess = this.tail.length - this.halfLimit;
+                this.tail = this.tail.slice(excess);
+                this.droppedLength += excess;
+            }
+        }
+    }
+
+    get length(): number {
+        return this.head.length + this.droppedLength + this.tail.length;
+    }
+
+    isEmpty(): boolean {
+        return this.length === 0;
+    }
+
+    /**
+     * Returns the output, truncated to roughly maxLength characters by keeping
+     * the head and tail and replacing the middle with a marker.
+     */
+    getText(maxLength: number = Number.POSITIVE_INFINITY): string {
+        const stored = this.head.length + this.tail.length;
+        if (this.droppedLength === 0 && stored <= maxLength) {
+            return this.head + this.tail;
+        }
+
+        // The end is taken from all stored text, since short logs fit in the head alone
+        const text = this.head + this.tail;
+        const budget = Math.min(maxLength, stored);
+        const headLength = Math.min(this.head.length, Math.ceil(budget / 2));
+        const tailLength = budget - headLength;
+        const omitted = this.length - headLength - tailLength;
+
+        return `${text.slice(0, headLength)}\n... [${omitted} characters truncated] ...\n${text.slice(text.length - tailLength)}`;
+    }
+
+    isTruncated(maxLength: number = Number.POSITIVE_INFINITY): boolean {
+        return this.droppedLength > 0 || this.head.length + this.tail.length > maxLength;
+    }
+
+    private isCompleteEscape(sequence: string): boolean {
+        ANSI_PATTERN.lastIndex = 0;
+        const match = ANSI_PATTERN.exec(sequence);
+        ANSI_PATTERN.lastIndex = 0;
+        return match !== null && match.index === 0;
+    }
+}
@@ -0,0 +1,152 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { LoggingLevel, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TaskRunInfo, TaskRunUpdate } from './types';
+import { TaskProvider } from './taskProvider';
+import { stripAnsi } from './outputBuffer';
+import { Logger } from './logger';
+
+const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+// How often a run that is still going reports its elapsed time
+const PROGRESS_INTERVAL_MS = 5000;
+// Output is batched into one log message per interval
+const OUTPUT_FLUSH_INTERVAL_MS = 500;
+const OUTPUT_LOGGER = 'task-output';
+
+// The minimum level a session asked for with logging/setLevel
+export interface LoggingSession {
+    level: LoggingLevel;
+}
+
+/**
+ * Reports a run to the client waiting for it in a tools/call request. The
+ * run's lifecycle and elapsed time are sent as notifications/progress when
+ * the request carries a progressToken, and its output is streamed as
+ * notifications/message log events on the request's stream.
+ */
+export class RunProgressReporter {
+    private taskProvider: TaskProvider;
+    private extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+    private logging: LoggingSession;
+    private logger: Logger;
+    private run?: TaskRunInfo;
+    private progress = 0;
+    private lineCount = 0;
+    private pendingOutput: string[] = [];
+    private flushTimer?: NodeJS.Timeout;
+    private progressTimer?: NodeJS.Timeout;
+    private listener?: { dispose(): void };
+
+    constructor(taskProvider: TaskProvider, extra: RequestHandlerExtra<ServerRequest, ServerNotification>, logging: LoggingSession) {
+        this.taskProvider = taskProvider;
+        this.extra = extra;
+        this.logging = logging;
+        this.logger = Logger.getInstance();
+    }
+
+    attach(run: TaskRunInfo): void {
+        this.run = run;
+        this.listener = this.taskProvider.onDidUpdateRun(update => {
+            if (update.runId === run.runId) {
+                this.onUpdate(update);
+            }
+        });
+
+        this.reportProgress(run.queue
+            ? `Task '${run.taskName}' queued at position ${run.queue.position} (run ID: ${run.runId}). ${run.queue.reason}`
+            : `Task '${run.taskName}' started (run ID: ${run.runId})`);
+        if (run.lifecycle.processStartedAt !== undefined) {
+            this.reportProcessStarted(run.lifecycle.processId);
+        }
+        this.progressTimer = setInterval(() => this.reportElapsed(), PROGRESS_INTERVAL_MS);
+    }
+
+    dispose(): void {
+        this.flushOutput();
+        clearInterval(this.progressTimer);
+        this.listener?.dispose();
+        this.listener = undefined;
+    }
+
+    private onUpdate(update: TaskRunUpdate): void {
+        switch (update.kind) {
+            case 'started':
+                if (this.run?.queue) {
+                    this.reportProgress(`Task '${update.taskName}' started after ${this.getElapsedSeconds()}s in the queue`);
+                }
+                break;
+            case 'processStarted':
+                this.reportProcessStarted(this.taskProvider.getTaskResult(update.runId)?.lifecycle.processId);
+                break;
+            case 'output':
+                this.pendingOutput.push(update.output || '');
+                if (!this.flushTimer) {
+                    this.flushTimer = setTimeout(() => this.flushOutput(), OUTPUT_FLUSH_INTERVAL_MS);
+                }
+                break;
+            case 'completed': {
+                this.flushOutput();
+                const status = this.taskProvider.getTaskResult(update.runId)?.result?.status || 'finished';
+                this.reportProgress(`Task '${update.taskName}' ${status} after ${this.getElapsedSeconds()}s`);
+                break;
+            }
+        }
+    }
+
+    private reportProcessStarted(processId: number | undefined): void {
+        this.reportProgress(processId !== undefined ? `Process started (PID ${processId})` : 'Process started');
+    }
+
+    private reportElapsed(): void {
+        const lines = this.lineCount > 0 || this.pendingOutput.length > 0 ? `, ${this.lineCount} lines of output` : '';
+        this.reportProgress(`Running for ${this.getElapsedSeconds()}s${lines}`);
+    }
+
+    private getElapsedSeconds(): number {
+        return Math.round((Date.now() - (this.run?.startTime ?? Date.now())) / 1000);
+    }
+
+    private reportProgress(message: string): void {
+        const progressToken = this.extra._meta?.progressToken;
+        if (progressToken === undefined) {
+            return;
+        }
+        // Progress must increase with every notification, so it counts them
+        this.progress++;
+        this.send({
+            method: 'notifications/progress',
+            params: { progressToken, progress: this.progress, message }
+        });
+    }
+
+    private flushOutput(): void {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+        if (this.pendingOutput.length === 0 || !this.run) {
+            return;
+        }
+
+        const text = stripAnsi(this.pendingOutput.join('')).replace(/\r\n/g, '\n');
+        this.pendingOutput = [];
+        this.lineCount += (text.match(/\n/g) || []).length;
+
+        if (text && LOGGING_LEVELS.indexOf('info') >= LOGGING_LEVELS.indexOf(this.logging.level)) {
+            this.send({
+                method: 'notifications/message',
+                params: {
+                    level: 'info',
+                    logger: OUTPUT_LOGGER,
+                    data: { runId: this.run.runId, taskName: this.run.taskName, output: text }
+                }
+            });
+        }
+    }
+
+    private send(notification: ServerNotification): void {
+        this.extra.sendNotification(notification).catch(error => {
+            this.logger.debug('Failed to send run notification', {
+                method: notification.method,
+                error: error instanceof Error ? error.message : error
+            });
+        });
+    }
+}
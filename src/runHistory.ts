@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { TaskHistoryRecord, TaskHistoryQuery, TaskExecutionResult, TaskRunTrigger } from './types';
+import { createTaskMatcher } from './taskSelector';
+import { Logger } from './logger';
+
+const HISTORY_KEY = 'mcpTaskServer.runHistory';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RunHistoryLimits {
+    maxRecords: number;
+    maxAgeDays: number;
+    maxOutputLength: number;
+}
+
+/**
+ * Keeps a record of finished task runs in the workspace state so that it
+ * survives restarts. Records are kept newest first and trimmed to the
+ * configured count and age whenever a run is added.
+ */
+export class RunHistory {
+    private state: vscode.Memento;
+    private limits: RunHistoryLimits;
+    private logger: Logger;
+    // Serializes writes so that concurrent runs don't overwrite each other's records
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(state: vscode.Memento, limits: RunHistoryLimits) {
+        this.state = state;
+        this.limits = limits;
+        this.logger = Logger.getInstance();
+    }
+
+    record(result: TaskExecutionResult, source: string, scope: string, trigger: TaskRunTrigger): void {
+        const problems = result.problems || [];
+        const record: TaskHistoryRecord = {
+            runId: result.runId || '',
+            taskName: result.taskName,
+            source,
+            scope,
+            trigger,
+            status: result.status,
+            exitCode: result.exitCode,
+            startTime: result.startTime,
+            endTime: result.endTime,
+            duration: result.duration,
+            output: this.truncate(result.output),
+            error: this.truncate(result.error),
+            problemSummary: {
+                errors: problems.filter(problem => problem.severity === 'error').length,
+                warnings: problems.filter(problem => problem.severity === 'warning').length,
+                total: problems.length
+            }
+        };
+
+        this.pending = this.pending
+            .then(() => this.state.update(HISTORY_KEY, this.applyRetention([record, ...this.getRecords()])))
+            .catch(error => {
+                this.logger.error('Failed to save task run history', { error: error instanceof Error ? error.message : error });
+            });
+    }
+
+    /**
+     * Returns matching records, newest first.
+     */
+    query(query: TaskHistoryQuery): TaskHistoryRecord[] {
+        const matchesTask = createTaskMatcher(query);
+        const records = this.getRecords().filter(record =>
+            matchesTask({ name: record.taskName, source: record.source, scope: record.scope }) &&
+            (!query.status || record.status === query.status) &&
+            (!query.trigger || record.trigger === query.trigger) &&
+            (query.since === undefined || record.startTime >= query.since) &&
+            (query.until === undefined || record.startTime <= query.until));
+        return query.limit !== undefined ? records.slice(0, query.limit) : records;
+    }
+
+    private getRecords(): TaskHistoryRecord[] {
+        return this.state.get<TaskHistoryRecord[]>(HISTORY_KEY, []);
+    }
+
+    private applyRetention(records: TaskHistoryRecord[]): TaskHistoryRecord[] {
+        const cutoff = Date.now() - this.limits.maxAgeDays * DAY_MS;
+        return records
+            .filter(record => record.endTime >= cutoff)
+            .slice(0, this.limits.maxRecords);
+    }
+
+    private truncate(text: string | undefined): string | undefined {
+        const maxLength = this.limits.maxOutputLength;
+        if (text === undefined || text.length <= maxLength) {
+            return text;
+        }
+        // The end of a log usually says why a run failed, so keep the tail
+        return `... [${text.length - maxLength} characters truncated] ...\n${text.slice(text.length - maxLength)}`;
+    }
+}
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { JSONRPCMessage, isJSONRPCResponse, InitializeResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { readDiscoveryFiles, findServerForDirectory, getDiscoveryDirectory } from './discovery';
+
+/**
+ * Stdio bridge for MCP clients that can only launch stdio servers. Finds the
+ * task server of the VSCode window that has the current directory open (or the
+ * one given with --workspace) and relays every message to it over HTTP.
+ *
+ * Usage: node out/stdioBridge.js [--workspace <path>]
+ */
+
+function log(message: string): void {
+    // stdout carries the MCP protocol, so diagnostics go to stderr
+    process.stderr.write(`[mcp-task-bridge] ${message}\n`);
+}
+
+function getWorkspaceArgument(): string {
+    const index = process.argv.indexOf('--workspace');
+    if (index !== -1 && process.argv[index + 1]) {
+        return process.argv[index + 1];
+    }
+    return process.env.MCP_TASK_SERVER_WORKSPACE || process.cwd();
+}
+
+async function main(): Promise<void> {
+    const workspace = getWorkspaceArgument();
+    const servers = readDiscoveryFiles();
+    const server = findServerForDirectory(servers, workspace);
+
+    if (!server) {
+        const reason = servers.length === 0
+            ? `No running VSCode MCP Task Server was found in ${getDiscoveryDirectory()}. ` +
+                'Make sure VSCode is running with the MCP Task extension and that its server is started.'
+            : `Found ${servers.length} running VSCode MCP Task Servers, but none has '${workspace}' open. ` +
+                'Pass --workspace <path> to choose one.';
+        log(reason);
+        process.exit(1);
+    }
+
+    log(`Forwarding to ${server.url} (VSCode process ${server.pid})`);
+
+    const stdio = new StdioServerTransport();
+    const http = new StreamableHTTPClientTransport(new URL(server.url), {
+        requestInit: { headers: { Authorization: `Bearer ${server.token}` } }
+    });
+    const pendingInitialize = new Set<string | number>();
+
+    const fail = (message: string) => {
+        log(message);
+        process.exit(1);
+    };
+
+    stdio.onmessage = (message: JSONRPCMessage) => {
+        if ('method' in message && message.method === 'initialize' && 'id' in message) {
+            pendingInitialize.add(message.id);
+        }
+        http.send(message).catch(error => {
+            fail(`Failed to reach the VSCode MCP Task Server at ${server.url}: ${error instanceof Error ? error.message : error}. ` +
+                'Is VSCode still running?');
+        });
+    };
+
+    http.onmessage = (message: JSONRPCMessage) => {
+        // Carry the negotiated protocol version on subsequent HTTP requests
+        if (isJSONRPCResponse(message) && pendingInitialize.delete(message.id)) {
+            const result = InitializeResultSchema.safeParse(message.result);
+            if (result.success) {
+                http.setProtocolVersion(result.data.protocolVersion);
+            }
+        }
+        stdio.send(message).catch(error => log(`Failed to write to stdout: ${error instanceof Error ? error.message : error}`));
+    };
+
+    http.onerror = (error: Error) => log(`HTTP transport error: ${error.message}`);
+    stdio.onerror = (error: Error) => log(`Stdio transport error: ${error.message}`);
+
+    stdio.onclose = () => {
+        http.terminateSession()
+            .catch(() => undefined)
+            .finally(() => http.close().finally(() => process.exit(0)));
+    };
+    http.onclose = () => {
+        stdio.close().finally(() => process.exit(0));
+    };
+
+    await http.start();
+    await stdio.start();
+}
+
+main().catch(error => {
+    log(`Bridge failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+});
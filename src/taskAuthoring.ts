@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import { parse, modify, applyEdits, ParseError, FormattingOptions, JSONPath } from 'jsonc-parser';
+import { Logger } from './logger';
+import { TaskPolicy } from './taskPolicy';
+import { JsonObject, isObject, validateTaskDefinition } from './taskSchema';
+import { findWorkspaceFolder, getFolderScope } from './taskSelector';
+
+type TaskEditOperation = 'create' | 'update' | 'delete';
+
+interface JsonModification {
+    path: JSONPath;
+    // undefined removes the value at path
+    value: unknown;
+    isArrayInsertion?: boolean;
+}
+
+const EMPTY_TASKS_FILE = '{\n    "version": "2.0.0",\n    "tasks": []\n}\n';
+// How long to wait for VSCode to pick up an edited tasks.json
+const TASK_LIST_REFRESH_TIMEOUT_MS = 3000;
+const TASK_LIST_POLL_INTERVAL_MS = 250;
+
+/**
+ * Creates, updates and deletes tasks in a workspace folder's
+ * .vscode/tasks.json. Edits go through a WorkspaceEdit computed with
+ * jsonc-parser, so comments and formatting elsewhere in the file are kept.
+ * Every edit is validated and must be confirmed by the user.
+ */
+export class TaskAuthoring {
+    private policy: TaskPolicy;
+    private logger: Logger;
+
+    constructor(policy: TaskPolicy) {
+        this.policy = policy;
+        this.logger = Logger.getInstance();
+    }
+
+    /**
+     * Appends the task to tasks.json. A missing file is only written once the
+     * user has confirmed, with the task already in it.
+     */
+    async createTask(task: unknown, folderName?: string): Promise<string> {
+        const folder = this.getFolder(folderName);
+        this.assertValid(task);
+        this.assertEditable(task, folder);
+        const label = String(task.label);
+
+        const uri = this.getTasksFileUri(folder);
+        if (await this.exists(uri)) {
+            const document = await this.openTasksFile(folder);
+            const tasks = this.readTasks(document);
+            if (tasks.some(existing => this.getLabel(existing) === label)) {
+                throw new Error(`A task labelled '${label}' already exists in folder '${folder.name}'`);
+            }
+
+            await this.confirm('create', label, folder, task);
+            await this.applyJsonEdits(document, [{ path: ['tasks', tasks.length], value: task, isArrayInsertion: true }]);
+        } else {
+            await this.confirm('create', label, folder, task);
+            const content = applyEdits(EMPTY_TASKS_FILE, modify(EMPTY_TASKS_FILE, ['tasks', 0], task, {
+                formattingOptions: this.getFormattingOptions(EMPTY_TASKS_FILE),
+                isArrayInsertion: true
+            }));
+            try {
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            } catch (error) {
+                throw new Error(`Could not create ${uri.fsPath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        await this.waitForTaskList(names => names.includes(label));
+
+        this.logger.info(`Task created: ${label}`, { folder: folder.name });
+        return uri.fsPath;
+    }
+
+    /**
+     * Applies changes to the task's top-level properties. A property set to
+     * null is removed; all other properties and their comments are kept.
+     */
+    async updateTask(label: string, changes: JsonObject, folderName?: string): Promise<string> {
+        const folder = this.getFolder(folderName);
+        const document = await this.openTasksFile(folder);
+        const tasks = this.readTasks(document);
+        const index = this.findTaskIndex(tasks, label, folder);
+        const existing = tasks[index];
+        this.assertEditable(existing, folder);
+
+        const updated: JsonObject = isObject(existing) ? { ...existing } : {};
+        for (const [property, value] of Object.entries(changes)) {
+            if (value === null) {
+                delete updated[property];
+            } else {
+                updated[property] = value;
+            }
+        }
+        this.assertValid(updated);
+        const newLabel = String(updated.label);
+        if (newLabel !== label && tasks.some(existing => this.getLabel(existing) === newLabel)) {
+            throw new Error(`A task labelled '${newLabel}' already exists in folder '${folder.name}'`);
+        }
+        this.assertEditable(updated, folder);
+
+        await this.confirm('update', label, folder, updated);
+        await this.applyJsonEdits(document, Object.entries(changes).map(([property, value]) => ({
+            path: ['tasks', index, property],
+            value: value === null ? undefined : value
+        })));
+        await this.waitForTaskList(names => names.includes(newLabel));
+
+        this.logger.info(`Task updated: ${label}`, { folder: folder.name, properties: Object.keys(changes) });
+        return this.getTasksFileUri(folder).fsPath;
+    }
+
+    async deleteTask(label: string, folderName?: string): Promise<string> {
+        const folder = this.getFolder(folderName);
+        const document = await this.openTasksFile(folder);
+        const tasks = this.readTasks(document);
+        const index = this.findTaskIndex(tasks, label, folder);
+        this.assertEditable(tasks[index], folder);
+
+        await this.confirm('delete', label, folder, tasks[index]);
+        await this.applyJsonEdits(document, [{ path: ['tasks', index], value: undefined }]);
+        await this.waitForTaskList(names => !names.includes(label));
+
+        this.logger.info(`Task deleted: ${label}`, { folder: folder.name });
+        return this.getTasksFileUri(folder).fsPath;
+    }
+
+    private getFolder(folderName?: string): vscode.WorkspaceFolder {
+        const folders = vscode.workspace.workspaceFolders || [];
+        if (folders.length === 0) {
+            throw new Error('No workspace folder is open');
+        }
+        if (folderName) {
+            return findWorkspaceFolder(folderName);
+        }
+        if (folders.length > 1) {
+            throw new Error(`Several workspace folders are open; pass 'folder' as one of: ${folders.map(f => f.name).join(', ')}`);
+        }
+        return folders[0];
+    }
+
+    private getTasksFileUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+        return vscode.Uri.joinPath(folder.uri, '.vscode', 'tasks.json');
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private async openTasksFile(folder: vscode.WorkspaceFolder): Promise<vscode.TextDocument> {
+        const uri = this.getTasksFileUri(folder);
+        if (!await this.exists(uri)) {
+            throw new Error(`Folder '${folder.name}' has no .vscode/tasks.json`);
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        if (document.isDirty) {
+            throw new Error(`${uri.fsPath} has unsaved changes; save or revert them first`);
+        }
+        return document;
+    }
+
+    private readTasks(document: vscode.TextDocument): unknown[] {
+        const errors: ParseError[] = [];
+        const content: unknown = parse(document.getText(), errors, { allowTrailingComma: true });
+        if (errors.length > 0 || !isObject(content)) {
+            throw new Error(`${document.uri.fsPath} is not valid JSON with comments`);
+        }
+        if (content.tasks === undefined) {
+            return [];
+        }
+        if (!Array.isArray(content.tasks)) {
+            throw new Error(`'tasks' in ${document.uri.fsPath} is not an array`);
+        }
+        return content.tasks;
+    }
+
+    private findTaskIndex(tasks: unknown[], label: string, folder: vscode.WorkspaceFolder): number {
+        const index = tasks.findIndex(task => this.getLabel(task) === label);
+        if (index === -1) {
+            throw new Error(`Task '${label}' not found in the tasks.json of folder '${folder.name}'`);
+        }
+        return index;
+    }
+
+    private getLabel(task: unknown): string | undefined {
+        if (!isObject(task)) {
+            return undefined;
+        }
+        const label = task.label ?? task.taskName;
+        return typeof label === 'string' ? label : undefined;
+    }
+
+    private assertValid(task: unknown): asserts task is JsonObject {
+        const errors = validateTaskDefinition(task);
+        if (errors.length > 0) {
+            throw new Error(`Invalid task definition:\n- ${errors.join('\n- ')}`);
+        }
+    }
+
+    /**
+     * Tasks that the policy denies are off limits for agents, including
+     * edits that would turn another task into one.
+     */
+    private assertEditable(task: unknown, folder: vscode.WorkspaceFolder): void {
+        const taskGroup = isObject(task) ? task.group : undefined;
+        const group = isObject(taskGroup) ? taskGroup.kind : taskGroup;
+        const hidden = this.policy.isHidden({
+            name: this.getLabel(task) || '',
+            source: 'Workspace',
+            group: typeof group === 'string' && group ? group : 'none',
+            scope: getFolderScope(folder)
+        });
+        if (hidden) {
+            throw new Error(`Task '${this.getLabel(task)}' may not be edited by MCP clients (policy denies)`);
+        }
+    }
+
+    private async confirm(operation: TaskEditOperation, label: string, folder: vscode.WorkspaceFolder, task: unknown): Promise<void> {
+        const choice = await vscode.window.showWarningMessage(
+            `An MCP agent wants to ${operation} the task '${label}' in ${folder.name}/.vscode/tasks.json.`,
+            {
+                modal: true,
+                detail: JSON.stringify(task, null, 2)
+            },
+            'Apply'
+        );
+
+        this.logger.info(`Task ${operation} ${choice ? 'confirmed' : 'declined'}: ${label}`, { folder: folder.name });
+        if (!choice) {
+            throw new Error(`The user declined to ${operation} task '${label}'`);
+        }
+    }
+
+    /**
+     * Applies the modifications to the document text in order, then writes the
+     * changed span back as a single edit and saves the file.
+     */
+    private async applyJsonEdits(document: vscode.TextDocument, modifications: JsonModification[]): Promise<void> {
+        const original = document.getText();
+        const formattingOptions = this.getFormattingOptions(original);
+        let text = original;
+        for (const modification of modifications) {
+            const edits = modify(text, modification.path, modification.value, {
+                formattingOptions,
+                isArrayInsertion: modification.isArrayInsertion
+            });
+            text = applyEdits(text, edits);
+        }
+
+        let start = 0;
+        while (start < original.length && start < text.length && original[start] === text[start]) {
+            start++;
+        }
+        let end = 0;
+        while (end < original.length - start && end < text.length - start &&
+            original[original.length - 1 - end] === text[text.length - 1 - end]) {
+            end++;
+        }
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        workspaceEdit.replace(
+            document.uri,
+            new vscode.Range(document.positionAt(start), document.positionAt(original.length - end)),
+            text.slice(start, text.length - end)
+        );
+
+        if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+            throw new Error(`Could not edit ${document.uri.fsPath}`);
+        }
+        if (!await document.save()) {
+            throw new Error(`Could not save ${document.uri.fsPath}`);
+        }
+    }
+
+    private getFormattingOptions(text: string): FormattingOptions {
+        const indent = /^([ \t]+)\S/m.exec(text)?.[1];
+        return {
+            insertSpaces: !indent?.startsWith('\t'),
+            tabSize: indent && !indent.startsWith('\t') ? indent.length : 4,
+            eol: text.includes('\r\n') ? '\r\n' : '\n'
+        };
+    }
+
+    /**
+     * VSCode reloads tasks.json asynchronously after it changes. Waits until
+     * the fetched task list reflects the edit so list_tasks shows it at once.
+     */
+    private async waitForTaskList(isUpToDate: (names: string[]) => boolean): Promise<void> {
+        const deadline = Date.now() + TASK_LIST_REFRESH_TIMEOUT_MS;
+        while (Date.now() < deadline) {
+            const names = (await vscode.tasks.fetchTasks()).map(task => task.name);
+            if (isUpToDate(names)) {
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, TASK_LIST_POLL_INTERVAL_MS));
+        }
+        this.logger.warn('Task list did not pick up the tasks.json change in time');
+    }
+}
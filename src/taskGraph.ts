@@ -0,0 +1,161 @@
+import { TaskInfo, TaskGraph, TaskGraphNode, TaskDependencyReference } from './types';
+
+export function getTaskNodeId(task: { scope: string; source: string; name: string }): string {
+    return `${task.scope}/${task.source}/${task.name}`;
+}
+
+/**
+ * Builds the dependency graph of the given tasks from their dependsOn
+ * entries. Labels resolve to a task in the same scope first and to a unique
+ * task elsewhere otherwise; task identifiers match on the definition's
+ * properties. Unresolvable references and dependency cycles are reported.
+ */
+export function buildTaskGraph(tasks: TaskInfo[]): TaskGraph {
+    const graph: TaskGraph = { nodes: [], edges: [], missing: [], cycles: [] };
+
+    for (const task of tasks) {
+        const node: TaskGraphNode = {
+            id: getTaskNodeId(task),
+            name: task.name,
+            source: task.source,
+            scope: task.scope
+        };
+        if (task.dependsOrder) {
+            node.dependsOrder = task.dependsOrder;
+        }
+        if (!graph.nodes.some(existing => existing.id === node.id)) {
+            graph.nodes.push(node);
+        }
+    }
+
+    for (const task of tasks) {
+        const from = getTaskNodeId(task);
+        for (const reference of task.dependsOn || []) {
+            const target = resolveDependency(reference, task, tasks);
+            if (target) {
+                graph.edges.push({ from, to: getTaskNodeId(target) });
+            } else {
+                graph.missing.push({ from, reference });
+            }
+        }
+    }
+
+    graph.cycles = findCycles(graph);
+    return graph;
+}
+
+/**
+ * Returns the IDs of all tasks the given task depends on, directly or not.
+ */
+export function getDependencyIds(graph: TaskGraph, rootId: string): string[] {
+    const seen = new Set<string>([rootId]);
+    const pending = [rootId];
+    const result: string[] = [];
+
+    while (pending.length > 0) {
+        const id = pending.shift()!;
+        for (const edge of graph.edges.filter(candidate => candidate.from === id)) {
+            if (!seen.has(edge.to)) {
+                seen.add(edge.to);
+                result.push(edge.to);
+                pending.push(edge.to);
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Restricts the graph to a task and everything it depends on.
+ */
+export function getSubgraph(graph: TaskGraph, rootId: string): TaskGraph {
+    const ids = new Set([rootId, ...getDependencyIds(graph, rootId)]);
+    return {
+        nodes: graph.nodes.filter(node => ids.has(node.id)),
+        edges: graph.edges.filter(edge => ids.has(edge.from)),
+        missing: graph.missing.filter(missing => ids.has(missing.from)),
+        cycles: graph.cycles.filter(cycle => cycle.some(id => ids.has(id)))
+    };
+}
+
+/**
+ * Renders the graph as a Mermaid flowchart. Edges point from a task to its
+ * dependencies; missing references are drawn as dashed nodes and edges that
+ * close a cycle are labelled.
+ */
+export function toMermaid(graph: TaskGraph): string {
+    const lines = ['flowchart TD'];
+    const aliases = new Map<string, string>();
+    graph.nodes.forEach((node, index) => {
+        aliases.set(node.id, `t${index}`);
+        const order = node.dependsOrder === 'sequence' ? ' (sequence)' : '';
+        lines.push(`    t${index}["${escapeMermaid(`${node.name}${order}`)}<br/>${escapeMermaid(`${node.source} · ${node.scope}`)}"]`);
+    });
+
+    const cycleEdges = new Set<string>();
+    for (const cycle of graph.cycles) {
+        cycleEdges.add(`${cycle[cycle.length - 2]}->${cycle[cycle.length - 1]}`);
+    }
+    for (const edge of graph.edges) {
+        const label = cycleEdges.has(`${edge.from}->${edge.to}`) ? '|cycle|' : '';
+        lines.push(`    ${aliases.get(edge.from)} -->${label} ${aliases.get(edge.to)}`);
+    }
+
+    graph.missing.forEach((missing, index) => {
+        const text = typeof missing.reference === 'string' ? missing.reference : JSON.stringify(missing.reference);
+        lines.push(`    m${index}["${escapeMermaid(`missing: ${text}`)}"]`);
+        lines.push(`    ${aliases.get(missing.from)} -.-> m${index}`);
+        lines.push(`    style m${index} stroke-dasharray: 5 5`);
+    });
+
+    return lines.join('\n');
+}
+
+function resolveDependency(reference: TaskDependencyReference, task: TaskInfo, tasks: TaskInfo[]): TaskInfo | undefined {
+    const matches = tasks.filter(candidate => typeof reference === 'string'
+        ? candidate.name === reference || `${candidate.source}: ${candidate.name}` === reference
+        : matchesIdentifier(candidate, reference));
+
+    const sameScope = matches.find(candidate => candidate.scope === task.scope);
+    if (sameScope) {
+        return sameScope;
+    }
+    return matches.length === 1 ? matches[0] : undefined;
+}
+
+function matchesIdentifier(task: TaskInfo, identifier: { type: string; [property: string]: any }): boolean {
+    return Object.entries(identifier).every(([property, value]) =>
+        JSON.stringify(task.definition[property]) === JSON.stringify(value));
+}
+
+function findCycles(graph: TaskGraph): string[][] {
+    const cycles: string[][] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (id: string) => {
+        state.set(id, 'visiting');
+        stack.push(id);
+        for (const edge of graph.edges.filter(candidate => candidate.from === id)) {
+            const targetState = state.get(edge.to);
+            if (targetState === 'visiting') {
+                cycles.push([...stack.slice(stack.indexOf(edge.to)), edge.to]);
+            } else if (targetState === undefined) {
+                visit(edge.to);
+            }
+        }
+        stack.pop();
+        state.set(id, 'done');
+    };
+
+    for (const node of graph.nodes) {
+        if (!state.has(node.id)) {
+            visit(node.id);
+        }
+    }
+    return cycles;
+}
+
+function escapeMermaid(text: string): string {
+    return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
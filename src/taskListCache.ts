@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+// Files whose changes can add, remove or change tasks
+const WATCHED_FILES = ['**/.vscode/tasks.json', '**/package.json'];
+// A burst of changes, e.g. from a branch switch, leads to a single refetch
+const REFRESH_DELAY_MS = 1000;
+
+/**
+ * Caches the task list, since vscode.tasks.fetchTasks runs every task
+ * provider's auto-detection and can take seconds in large repositories. The
+ * cache is dropped when a tasks.json or package.json file, the workspace
+ * folders, the tasks configuration or the installed extensions change. The
+ * list is then fetched again in the background and onDidChange fires if the
+ * set of tasks differs.
+ */
+export class TaskListCache implements vscode.Disposable {
+    private tasks?: Promise<vscode.Task[]>;
+    // Identifies the last fetched task set; undefined until the first fetch
+    private signature?: string;
+    private refreshTimer?: NodeJS.Timeout;
+    private changed = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changed.event;
+    private disposables: vscode.Disposable[] = [];
+    private logger: Logger;
+
+    constructor() {
+        this.logger = Logger.getInstance();
+
+        for (const pattern of WATCHED_FILES) {
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            const onFileEvent = (uri: vscode.Uri) => this.onFileChanged(uri);
+            this.disposables.push(
+                watcher,
+                watcher.onDidCreate(onFileEvent),
+                watcher.onDidChange(onFileEvent),
+                watcher.onDidDelete(onFileEvent)
+            );
+        }
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidate('workspace folders changed')),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('tasks')) {
+                    this.invalidate('tasks configuration changed');
+                }
+            }),
+            vscode.extensions.onDidChange(() => this.invalidate('extensions changed')),
+            this.changed
+        );
+    }
+
+    /**
+     * Returns the cached task list, fetching it first if there is none or a
+     * refresh is forced.
+     */
+    get(refresh = false): Promise<vscode.Task[]> {
+        if (refresh || !this.tasks) {
+            this.tasks = this.fetch();
+        }
+        return this.tasks;
+    }
+
+    invalidate(reason: string): void {
+        this.logger.debug(`Task list cache invalidated: ${reason}`);
+        this.tasks = undefined;
+
+        // Nobody has asked for the list yet, so there is nothing to compare with
+        if (this.signature === undefined) {
+            return;
+        }
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            if (!this.tasks) {
+                this.get().catch(error => {
+                    this.logger.warn('Failed to refresh the task list', {
+                        error: error instanceof Error ? error.message : error
+                    });
+                });
+            }
+        }, REFRESH_DELAY_MS);
+    }
+
+    dispose(): void {
+        clearTimeout(this.refreshTimer);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.tasks = undefined;
+    }
+
+    private fetch(): Promise<vscode.Task[]> {
+        const startTime = Date.now();
+        const tasks = Promise.resolve(vscode.tasks.fetchTasks()).then(result => {
+            this.logger.debug(`Fetched ${result.length} tasks in ${Date.now() - startTime}ms`);
+            this.checkForChanges(result);
+            return result;
+        });
+        // A failed fetch is not cached, the next caller tries again
+        tasks.catch(() => {
+            if (this.tasks === tasks) {
+                this.tasks = undefined;
+            }
+        });
+        return tasks;
+    }
+
+    private checkForChanges(tasks: vscode.Task[]): void {
+        const signature = JSON.stringify(tasks
+            .map(task => JSON.stringify([this.getScopeKey(task), task.source, task.name, task.definition]))
+            .sort());
+        const changed = this.signature !== undefined && signature !== this.signature;
+        this.signature = signature;
+
+        if (changed) {
+            this.logger.info('Task list changed');
+            this.changed.fire();
+        }
+    }
+
+    private getScopeKey(task: vscode.Task): string {
+        return typeof task.scope === 'object' ? task.scope.uri.toString() : String(task.scope);
+    }
+
+    private onFileChanged(uri: vscode.Uri): void {
+        // Installing dependencies touches every package.json under node_modules
+        if (uri.path.includes('/node_modules/')) {
+            return;
+        }
+        this.invalidate(`${uri.fsPath} changed`);
+    }
+}
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { TaskPolicyAction, TaskPolicyRule } from './types';
+import { Logger } from './logger';
+import { matchesGlob } from './glob';
+
+export type TaskOperation = 'execute' | 'terminate';
+
+export interface TaskPolicySubject {
+    name: string;
+    source: string;
+    group: string;
+    scope: string;
+}
+
+const ALWAYS_ALLOWED_KEY = 'mcpTaskServer.alwaysAllowedTasks';
+
+/**
+ * Decides whether agents may run or terminate a task. Rules are matched in
+ * order on task name, source and group; the first match wins and tasks that
+ * match no rule get the default action.
+ */
+export class TaskPolicy {
+    private rules: TaskPolicyRule[];
+    private defaultAction: TaskPolicyAction;
+    private state: vscode.Memento;
+    private logger: Logger;
+
+    constructor(rules: TaskPolicyRule[], defaultAction: TaskPolicyAction, state: vscode.Memento) {
+        this.rules = rules;
+        this.defaultAction = defaultAction;
+        this.state = state;
+        this.logger = Logger.getInstance();
+    }
+
+    getAction(subject: TaskPolicySubject): TaskPolicyAction {
+        const rule = this.rules.find(r =>
+            matchesGlob(subject.name, r.name) &&
+            matchesGlob(subject.source, r.source) &&
+            matchesGlob(subject.group, r.group)
+        );
+        return rule ? rule.action : this.defaultAction;
+    }
+
+    /**
+     * Denied tasks are not shown to agents at all.
+     */
+    isHidden(subject: TaskPolicySubject): boolean {
+        return this.getAction(subject) === 'deny';
+    }
+
+    /**
+     * Throws if the operation is not allowed. For 'ask' tasks the user is
+     * prompted with a modal unless they previously chose "Always Allow".
+     */
+    async authorize(subject: TaskPolicySubject, operation: TaskOperation): Promise<void> {
+        const action = this.getAction(subject);
+        const key = this.getDecisionKey(subject, operation);
+        let allowed: boolean;
+        let reason: string;
+
+        if (action === 'allow') {
+            allowed = true;
+            reason = 'policy allows';
+        } else if (action === 'deny') {
+            allowed = false;
+            reason = 'policy denies';
+        } else if (this.getAlwaysAllowed().includes(key)) {
+            allowed = true;
+            reason = 'previously always allowed';
+        } else {
+            const choice = await this.askUser(subject, operation);
+            allowed = choice !== undefined;
+            reason = choice ? `user chose ${choice}` : 'user declined';
+            if (choice === 'Always Allow') {
+                await this.state.update(ALWAYS_ALLOWED_KEY, [...this.getAlwaysAllowed(), key]);
+            }
+        }
+
+        this.logger.info(`Task policy ${allowed ? 'allowed' : 'denied'} ${operation}: ${subject.name}`, {
+            source: subject.source,
+            group: subject.group,
+            scope: subject.scope,
+            action,
+            reason
+        });
+
+        if (!allowed) {
+            throw new Error(`Task '${subject.name}' may not be ${operation === 'execute' ? 'executed' : 'terminated'} by MCP clients (${reason})`);
+        }
+    }
+
+    static async clearAlwaysAllowed(state: vscode.Memento): Promise<void> {
+        await state.update(ALWAYS_ALLOWED_KEY, undefined);
+    }
+
+    private async askUser(subject: TaskPolicySubject, operation: TaskOperation): Promise<'Allow Once' | 'Always Allow' | undefined> {
+        const verb = operation === 'execute' ? 'run' : 'terminate';
+        return vscode.window.showWarningMessage(
+            `An MCP agent wants to ${verb} the task '${subject.name}'.`,
+            {
+                modal: true,
+                detail: `Source: ${subject.source}\nGroup: ${subject.group}\nScope: ${subject.scope}`
+            },
+            'Allow Once',
+            'Always Allow'
+        );
+    }
+
+    private getAlwaysAllowed(): string[] {
+        return this.state.get<string[]>(ALWAYS_ALLOWED_KEY, []);
+    }
+
+    private getDecisionKey(subject: TaskPolicySubject, operation: TaskOperation): string {
+        return `${operation}|${subject.source}|${subject.scope}|${subject.name}`;
+    }
+}
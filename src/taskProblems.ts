@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { TaskProblem } from './types';
+
+type DiagnosticSnapshot = Map<string, Set<string>>;
+
+const SEVERITY_NAMES: { [severity: number]: TaskProblem['severity'] } = {
+    [vscode.DiagnosticSeverity.Error]: 'error',
+    [vscode.DiagnosticSeverity.Warning]: 'warning',
+    [vscode.DiagnosticSeverity.Information]: 'information',
+    [vscode.DiagnosticSeverity.Hint]: 'hint'
+};
+
+/**
+ * Collects the diagnostics a task's problem matchers produce. The workspace
+ * diagnostics are snapshotted when the run starts; afterwards every entry that
+ * is new or changed and whose source belongs to one of the task's matchers is
+ * attributed to the run. Matchers that declare no source cannot be told apart
+ * from language servers, so for those all new diagnostics are reported.
+ */
+export class TaskProblemTracker {
+    private before: DiagnosticSnapshot;
+    private sources?: Set<string>;
+
+    private constructor(sources: string[] | undefined) {
+        this.before = takeSnapshot();
+        this.sources = sources ? new Set(sources) : undefined;
+    }
+
+    /**
+     * Starts tracking for a task, or returns undefined if it has no problem matchers.
+     */
+    static forTask(task: vscode.Task): TaskProblemTracker | undefined {
+        const matchers = resolveTaskMatchers(task);
+        if (matchers.length === 0) {
+            return undefined;
+        }
+
+        const sources: string[] = [];
+        for (const matcher of matchers) {
+            if (typeof matcher?.source !== 'string') {
+                return new TaskProblemTracker(undefined);
+            }
+            sources.push(matcher.source);
+        }
+        return new TaskProblemTracker(sources);
+    }
+
+    collect(): TaskProblem[] {
+        const problems: TaskProblem[] = [];
+        for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+            const previous = this.before.get(uri.toString());
+            for (const diagnostic of diagnostics) {
+                if (previous?.has(getDiagnosticKey(diagnostic))) {
+                    continue;
+                }
+                if (this.sources && (!diagnostic.source || !this.sources.has(diagnostic.source))) {
+                    continue;
+                }
+                problems.push(toTaskProblem(uri, diagnostic));
+            }
+        }
+        return problems;
+    }
+}
+
+function takeSnapshot(): DiagnosticSnapshot {
+    const snapshot: DiagnosticSnapshot = new Map();
+    for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+        snapshot.set(uri.toString(), new Set(diagnostics.map(getDiagnosticKey)));
+    }
+    return snapshot;
+}
+
+function getDiagnosticKey(diagnostic: vscode.Diagnostic): string {
+    const { start, end } = diagnostic.range;
+    return JSON.stringify([
+        start.line, start.character, end.line, end.character,
+        diagnostic.severity, diagnostic.message, diagnostic.source, getDiagnosticCode(diagnostic)
+    ]);
+}
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string | undefined {
+    const code = diagnostic.code;
+    if (code === undefined) {
+        return undefined;
+    }
+    return typeof code === 'object' ? String(code.value) : String(code);
+}
+
+function toTaskProblem(uri: vscode.Uri, diagnostic: vscode.Diagnostic): TaskProblem {
+    const { start, end } = diagnostic.range;
+    return {
+        file: uri.scheme === 'file' ? uri.fsPath : uri.toString(),
+        range: {
+            start: { line: start.line, character: start.character },
+            end: { line: end.line, character: end.character }
+        },
+        severity: SEVERITY_NAMES[diagnostic.severity],
+        message: diagnostic.message,
+        code: getDiagnosticCode(diagnostic),
+        source: diagnostic.source
+    };
+}
+
+/**
+ * Returns the definitions of the task's problem matchers, with `base`
+ * references to matchers contributed by extensions merged in. Matchers that
+ * cannot be found are returned as undefined.
+ */
+export function resolveTaskMatchers(task: vscode.Task): Array<any | undefined> {
+    return getMatcherReferences(task).map(matcher => resolveMatcher(matcher, new Set()));
+}
+
+/**
+ * Returns the task's problem matchers, either as names (e.g. `$tsc`) or as
+ * inline definitions from tasks.json.
+ */
+function getMatcherReferences(task: vscode.Task): Array<string | any> {
+    const references: Array<string | any> = [...task.problemMatchers];
+    const inline = task.definition.problemMatcher;
+    for (const matcher of Array.isArray(inline) ? inline : inline ? [inline] : []) {
+        if (typeof matcher === 'object' || !references.includes(matcher)) {
+            references.push(matcher);
+        }
+    }
+    return references;
+}
+
+function resolveMatcher(matcher: string | any, seen: Set<string>): any | undefined {
+    if (typeof matcher === 'object' && matcher !== null) {
+        if (typeof matcher.base !== 'string') {
+            return matcher;
+        }
+        const base = resolveMatcher(matcher.base, seen);
+        return base ? { ...base, ...matcher } : undefined;
+    }
+    if (typeof matcher !== 'string') {
+        return undefined;
+    }
+
+    const name = matcher.replace(/^\$/, '');
+    if (seen.has(name)) {
+        return undefined;
+    }
+    seen.add(name);
+
+    for (const extension of vscode.extensions.all) {
+        const contributed: any[] = extension.packageJSON?.contributes?.problemMatchers || [];
+        const definition = contributed.find(candidate => candidate?.name === name);
+        if (definition) {
+            return resolveMatcher(definition, seen);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Formats problems one per line as file:line:column, with one-based positions.
+ */
+export function formatProblems(problems: TaskProblem[]): string {
+    return problems.map(problem => {
+        const { line, character } = problem.range.start;
+        const codeText = problem.code ? ` [${problem.code}]` : '';
+        return `${problem.file}:${line + 1}:${character + 1} ${problem.severity}${codeText}: ${problem.message}`;
+    }).join('\n');
+}
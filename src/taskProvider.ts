@@ -1,83 +1,443 @@
 import * as vscode from 'vscode';
-import { TaskInfo, TaskExecutionResult } from './types';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    TaskInfo,
+    TaskExecutionResult,
+    TaskOutputInfo,
+    TaskRunInfo,
+    TaskRunUpdate,
+    TaskRunContext,
+    TaskLifecycle,
+    TaskLifecycleState,
+    TaskInputInfo,
+    TaskExecutionOverrides,
+    TaskProblemsInfo,
+    TaskReadinessOptions,
+    BackgroundTaskStatus,
+    RunCommandRequest,
+    TaskGraph,
+    TaskGraphNode,
+    TaskDependencyReference,
+    TaskDependencyOutcome,
+    TaskRunTrigger,
+    TaskHistoryRecord,
+    TaskHistoryQuery,
+    TaskSelector,
+    TaskQueueInfo,
+    TaskConcurrencyPolicy,
+    TaskTimeoutAction,
+    MCPServerConfig
+} from './types';
 import { Logger } from './logger';
+import { OutputBuffer } from './outputBuffer';
+import { CapturingPseudoterminal, CapturedProcessSpec } from './capturingTerminal';
+import { VariableResolver, MissingInputError, findInputReferences } from './variableResolver';
+import { TaskPolicy, TaskPolicySubject } from './taskPolicy';
+import { matchesGlob } from './glob';
+import { TaskProblemTracker, resolveTaskMatchers } from './taskProblems';
+import { BackgroundTaskWatcher, getBackgroundPatterns } from './backgroundWatcher';
+import { isExecutableAllowed, resolveCommandCwd, getScrubbedVariables } from './commandSandbox';
+import { buildTaskGraph, getDependencyIds, getSubgraph, getTaskNodeId } from './taskGraph';
+import { RunHistory } from './runHistory';
+import { TaskKey, createTaskMatcher, filterTask, selectTask, getFolderScope } from './taskSelector';
+import { TaskListCache } from './taskListCache';
+
+interface TaskOutputCapture {
+    taskName: string;
+    output: OutputBuffer;
+    stderr: OutputBuffer;
+    completed: boolean;
+}
+
+// A shell or process execution with all variables and overrides applied
+interface ResolvedExecution {
+    kind: 'shell' | 'process';
+    // Full command line for shell executions, the executable for process executions
+    command: string;
+    args: string[];
+    executable?: string;
+    shellArgs?: string[];
+    cwd?: string;
+    env: { [key: string]: string };
+}
+
+interface TaskRun {
+    runId: string;
+    taskName: string;
+    source: string;
+    group: string;
+    scope: string;
+    trigger: TaskRunTrigger;
+    expectsProcess: boolean;
+    execution?: vscode.TaskExecution;
+    lifecycle: TaskLifecycle;
+    capture?: TaskOutputCapture;
+    problems?: TaskProblemTracker;
+    background?: BackgroundTaskWatcher;
+    // For compound tasks: the tasks this run depends on, bound to their runs as they start
+    dependencies?: { node: TaskGraphNode; run?: TaskRun }[];
+    dependent?: TaskRun;
+    // Set for runs first seen after they started, e.g. ones already going when the server started
+    seenMidRun?: boolean;
+    finalizing: boolean;
+    // Why the run failed before VSCode launched it
+    error?: string;
+    result?: TaskExecutionResult;
+    completion: Promise<TaskExecutionResult>;
+    resolveCompletion: (result: TaskExecutionResult) => void;
+}
+
+// A run waiting for a free slot or for another run of the same task
+interface QueuedRun {
+    run: TaskRun;
+    task: vscode.Task;
+    // The task as it will be handed to VSCode, with overrides and output capture applied
+    runnable: vscode.Task;
+}
+
+const LIFECYCLE_ORDER: TaskLifecycleState[] = ['queued', 'started', 'processStarted', 'processEnded', 'ended'];
+
+const MAX_RETAINED_OUTPUTS = 20;
+const MAX_RETAINED_RUNS = 100;
+// How long to wait for a late process-end event after the task itself ended
+const PROCESS_END_GRACE_MS = 1000;
+// Problem matcher diagnostics reach the extension host shortly after the task ends
+const DIAGNOSTICS_SETTLE_MS = 500;
+// Task definition type of the transient tasks created by run_command
+const COMMAND_TASK_TYPE = 'mcp-command';
+
+function formatTimeout(timeoutMs: number): string {
+    return timeoutMs % 1000 === 0 ? `${timeoutMs / 1000}s` : `${timeoutMs}ms`;
+}
 
 export class TaskProvider {
     private logger: Logger;
-    private taskExecutions: Map<string, vscode.TaskExecution> = new Map();
-    private executionResults: Map<string, TaskExecutionResult> = new Map();
+    private config: MCPServerConfig;
+    private policy: TaskPolicy;
+    private history: RunHistory;
+    private executionRunIds: WeakMap<vscode.TaskExecution, string> = new WeakMap();
+    private runs: Map<string, TaskRun> = new Map();
+    // Runs waiting to start, in the order they were requested
+    private queue: QueuedRun[] = [];
+    private runUpdated = new vscode.EventEmitter<TaskRunUpdate>();
+    readonly onDidUpdateRun = this.runUpdated.event;
+    private taskList = new TaskListCache();
+    // Fires when tasks were added, removed or changed
+    readonly onDidChangeTasks = this.taskList.onDidChange;
+    private disposables: vscode.Disposable[] = [];
 
-    constructor() {
+    constructor(config: MCPServerConfig, policy: TaskPolicy, history: RunHistory) {
+        this.config = config;
+        this.policy = policy;
+        this.history = history;
         this.logger = Logger.getInstance();
         this.setupTaskEventListeners();
     }
 
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.taskList.dispose();
+        this.runUpdated.dispose();
+    }
+
     private setupTaskEventListeners(): void {
         // Listen for task start events
-        vscode.tasks.onDidStartTask((e) => {
-            const taskId = this.getTaskId(e.execution.task);
-            this.taskExecutions.set(taskId, e.execution);
-            this.logger.info(`Task started: ${e.execution.task.name}`, { taskId });
-        });
+        this.disposables.push(vscode.tasks.onDidStartTask((e) => {
+            const run = this.getRunForExecution(e.execution, true);
+            this.recordStarted(run);
+            this.logger.info(`Task started: ${e.execution.task.name}`, { runId: run.runId });
+        }));
 
         // Listen for task end events
-        vscode.tasks.onDidEndTask((e) => {
-            const taskId = this.getTaskId(e.execution.task);
-            const startTime = Date.now(); // In real implementation, track start time
-            
-            const result: TaskExecutionResult = {
-                taskName: e.execution.task.name,
-                success: true, // Will be updated based on actual result
-                duration: Date.now() - startTime
-            };
-
-            this.executionResults.set(taskId, result);
-            this.taskExecutions.delete(taskId);
-            this.logger.info(`Task completed: ${e.execution.task.name}`, { taskId, result });
-        });
+        this.disposables.push(vscode.tasks.onDidEndTask((e) => {
+            const run = this.getRunForExecution(e.execution);
+            this.recordEnded(run);
+            this.logger.info(`Task ended: ${e.execution.task.name}`, { runId: run.runId });
+        }));
 
         // Listen for task process events
-        vscode.tasks.onDidStartTaskProcess((e) => {
+        this.disposables.push(vscode.tasks.onDidStartTaskProcess((e) => {
+            const run = this.getRunForExecution(e.execution);
+            this.recordProcessStarted(run, e.processId);
             this.logger.debug(`Task process started: ${e.execution.task.name}`, { 
+                runId: run.runId,
                 processId: e.processId 
             });
-        });
-
-        vscode.tasks.onDidEndTaskProcess((e) => {
-            const taskId = this.getTaskId(e.execution.task);
-            const result = this.executionResults.get(taskId);
-            
-            if (result) {
-                result.exitCode = e.exitCode;
-                result.success = e.exitCode === 0;
-                this.executionResults.set(taskId, result);
-            }
+        }));
 
+        this.disposables.push(vscode.tasks.onDidEndTaskProcess((e) => {
+            const run = this.getRunForExecution(e.execution);
+            this.recordProcessEnded(run, e.exitCode);
             this.logger.debug(`Task process ended: ${e.execution.task.name}`, { 
+                runId: run.runId,
                 exitCode: e.exitCode
             });
+        }));
+    }
+
+    /**
+     * Returns the run ID for a task execution, assigning one on first sight.
+     * VSCode hands out the same TaskExecution object for a run in every task
+     * event, so the ID stays stable from start to process end.
+     */
+    private getRunId(execution: vscode.TaskExecution): string {
+        let runId = this.executionRunIds.get(execution);
+        if (!runId) {
+            runId = randomUUID();
+            this.executionRunIds.set(execution, runId);
+        }
+        return runId;
+    }
+
+    private getRunForExecution(execution: vscode.TaskExecution, startEvent = false): TaskRun {
+        const runId = this.getRunId(execution);
+        let run = this.runs.get(runId);
+        if (!run) {
+            // Runs started outside of MCP (e.g. by the user) are tracked from their first event.
+            // Unless that is their start event, they are already going since an unknown time.
+            run = this.createRun(runId, execution.task, 'human', { state: startEvent ? 'queued' : 'started', terminated: false });
+            run.seenMidRun = !startEvent;
+            run.execution = execution;
+            this.runs.set(runId, run);
+            this.claimDependency(run, execution.task);
+        }
+        return run;
+    }
+
+    /**
+     * Attaches a run that VSCode started on its own to the compound run that
+     * is waiting for it as a dependency, if any.
+     */
+    private claimDependency(run: TaskRun, task: vscode.Task): void {
+        const id = getTaskNodeId({
+            scope: this.getScopeString(task.scope || vscode.TaskScope.Workspace),
+            source: task.source,
+            name: task.name
         });
+
+        for (const candidate of this.runs.values()) {
+            const entry = candidate.result ? undefined : candidate.dependencies?.find(dependency => dependency.node.id === id && !dependency.run);
+            if (entry) {
+                entry.run = run;
+                run.dependent = candidate;
+                run.trigger = candidate.trigger;
+                return;
+            }
+        }
+    }
+
+    /**
+     * VSCode does not run a compound task, nor report its end, once one of its
+     * dependencies failed. When all started dependencies have finished and one
+     * of them failed, the compound run is closed after a grace period unless
+     * it started a process of its own in the meantime.
+     */
+    private checkDependencies(run: TaskRun): void {
+        const dependencies = run.dependencies || [];
+        const settled = dependencies.every(dependency => !dependency.run || dependency.run.result);
+        const failed = dependencies.some(dependency => dependency.run?.result && !dependency.run.result.success);
+        if (run.result || !settled || !failed) {
+            return;
+        }
+
+        setTimeout(() => {
+            const lifecycle = run.lifecycle;
+            if (lifecycle.processStartedAt === undefined && lifecycle.endedAt === undefined) {
+                lifecycle.endedAt = Date.now();
+                this.advanceLifecycle(run, 'ended');
+                this.finalizeRun(run);
+            }
+        }, PROCESS_END_GRACE_MS);
+    }
+
+    private getDependencyOutcomes(run: TaskRun): TaskDependencyOutcome[] | undefined {
+        return run.dependencies?.map(({ node, run: dependencyRun }) => ({
+            taskName: node.name,
+            source: node.source,
+            scope: node.scope,
+            runId: dependencyRun?.runId,
+            status: dependencyRun ? dependencyRun.result?.status ?? 'running' : 'notStarted',
+            exitCode: dependencyRun?.result?.exitCode
+        }));
+    }
+
+    private createRun(runId: string, task: vscode.Task, trigger: TaskRunTrigger, lifecycle: TaskLifecycle): TaskRun {
+        let resolveCompletion!: (result: TaskExecutionResult) => void;
+        const completion = new Promise<TaskExecutionResult>(resolve => {
+            resolveCompletion = resolve;
+        });
+
+        return {
+            runId,
+            taskName: task.name,
+            source: task.source,
+            group: this.getGroupName(task),
+            scope: this.getScopeString(task.scope || vscode.TaskScope.Workspace),
+            trigger,
+            expectsProcess: task.execution instanceof vscode.ShellExecution ||
+                task.execution instanceof vscode.ProcessExecution,
+            lifecycle,
+            problems: TaskProblemTracker.forTask(task),
+            finalizing: false,
+            completion,
+            resolveCompletion
+        };
+    }
+
+    private advanceLifecycle(run: TaskRun, state: TaskLifecycleState): void {
+        if (LIFECYCLE_ORDER.indexOf(state) > LIFECYCLE_ORDER.indexOf(run.lifecycle.state)) {
+            run.lifecycle.state = state;
+        }
+    }
+
+    private recordStarted(run: TaskRun): void {
+        if (run.lifecycle.startedAt !== undefined) {
+            return;
+        }
+        run.lifecycle.startedAt = Date.now();
+        this.advanceLifecycle(run, 'started');
+        this.runUpdated.fire({ runId: run.runId, taskName: run.taskName, kind: 'started' });
+    }
+
+    private recordProcessStarted(run: TaskRun, processId: number | undefined): void {
+        run.lifecycle.processId = processId ?? run.lifecycle.processId;
+        if (run.lifecycle.processStartedAt !== undefined) {
+            return;
+        }
+        run.lifecycle.processStartedAt = Date.now();
+        this.advanceLifecycle(run, 'processStarted');
+        run.background?.onProcessStarted();
+        this.runUpdated.fire({ runId: run.runId, taskName: run.taskName, kind: 'processStarted' });
     }
 
-    private getTaskId(task: vscode.Task): string {
-        return `${task.source}-${task.name}-${task.scope}`;
+    private recordProcessEnded(run: TaskRun, exitCode: number | undefined): void {
+        if (run.lifecycle.processEndedAt !== undefined) {
+            return;
+        }
+        run.lifecycle.processEndedAt = Date.now();
+        run.lifecycle.exitCode = exitCode;
+        this.advanceLifecycle(run, 'processEnded');
+
+        if (run.lifecycle.endedAt !== undefined) {
+            this.finalizeRun(run);
+        }
+    }
+
+    private recordEnded(run: TaskRun): void {
+        run.lifecycle.endedAt = run.lifecycle.endedAt ?? Date.now();
+        this.advanceLifecycle(run, 'ended');
+
+        const awaitingProcessEnd = run.lifecycle.processStartedAt !== undefined &&
+            run.lifecycle.processEndedAt === undefined;
+        if (awaitingProcessEnd) {
+            setTimeout(() => this.finalizeRun(run), PROCESS_END_GRACE_MS);
+        } else {
+            this.finalizeRun(run);
+        }
+    }
+
+    /**
+     * Builds the final result once a run has ended. Runs whose process was
+     * killed without an exit code count as terminated, and shell or process
+     * tasks seen from their start that never launched a process count as failed.
+     */
+    private finalizeRun(run: TaskRun): void {
+        if (run.result || run.finalizing) {
+            return;
+        }
+        if (run.problems) {
+            run.finalizing = true;
+            setTimeout(() => this.completeRun(run), DIAGNOSTICS_SETTLE_MS);
+        } else {
+            this.completeRun(run);
+        }
+    }
+
+    private completeRun(run: TaskRun): void {
+        if (run.result) {
+            return;
+        }
+
+        const lifecycle = run.lifecycle;
+        const endTime = lifecycle.endedAt ?? Date.now();
+        const startTime = lifecycle.startedAt ?? lifecycle.processStartedAt ?? lifecycle.queuedAt ?? endTime;
+        const processLaunched = lifecycle.processStartedAt !== undefined || lifecycle.exitCode !== undefined;
+        const terminated = lifecycle.terminated || (processLaunched && lifecycle.exitCode === undefined);
+        // A run first seen mid-flight may have launched its process before it was tracked
+        const processRequired = run.expectsProcess && !run.seenMidRun;
+        const success = !terminated && !run.error && (processLaunched ? lifecycle.exitCode === 0 : !processRequired);
+
+        const dependencies = this.getDependencyOutcomes(run);
+        const failedDependency = dependencies?.find(dependency =>
+            dependency.status === 'failed' || dependency.status === 'terminated' ||
+            dependency.status === 'cancelled' || dependency.status === 'timedOut');
+        const succeeded = success && !failedDependency;
+
+        const result: TaskExecutionResult = {
+            taskName: run.taskName,
+            runId: run.runId,
+            status: terminated
+                ? (lifecycle.cancelled ? 'cancelled' : lifecycle.timedOut ? 'timedOut' : 'terminated')
+                : succeeded ? 'succeeded' : 'failed',
+            exitCode: lifecycle.exitCode,
+            processId: lifecycle.processId,
+            success: succeeded,
+            startTime,
+            endTime,
+            duration: endTime - startTime,
+            dependencies
+        };
+
+        if (run.error) {
+            result.error = run.error;
+        } else if (failedDependency) {
+            const exitCodeText = failedDependency.exitCode !== undefined ? ` with exit code ${failedDependency.exitCode}` : '';
+            result.error = `Dependency '${failedDependency.taskName}' ${failedDependency.status === 'failed' ? `failed${exitCodeText}` : `was ${failedDependency.status}`}`;
+        } else if (!processLaunched && processRequired && !terminated) {
+            result.error = 'Task ended without launching a process';
+        }
+
+        if (run.problems) {
+            result.problems = run.problems.collect();
+            run.problems = undefined;
+        }
+        run.background?.dispose();
+
+        run.result = this.attachOutput(result, run);
+        if (run.capture) {
+            run.capture.completed = true;
+        }
+        run.resolveCompletion(run.result);
+        this.runUpdated.fire({ runId: run.runId, taskName: run.taskName, kind: 'completed' });
+        this.history.record(run.result, run.source, run.scope, run.trigger);
+        if (run.dependent) {
+            this.checkDependencies(run.dependent);
+        }
+
+        this.logger.info(`Task run finished: ${run.taskName}`, {
+            runId: run.runId,
+            status: result.status,
+            exitCode: result.exitCode,
+            duration: result.duration,
+            problems: result.problems?.length
+        });
+        this.pruneRuns();
+        this.processQueue();
     }
 
-    async getAllTasks(): Promise<TaskInfo[]> {
+    /**
+     * Returns the tasks that the task policy does not hide, from the task list
+     * cache unless a refresh is forced.
+     */
+    async getAllTasks(refresh = false): Promise<TaskInfo[]> {
         try {
-            this.logger.debug('Fetching all available tasks');
-            const tasks = await vscode.tasks.fetchTasks();
+            this.logger.debug('Fetching all available tasks', { refresh });
+            const tasks = await this.getVisibleTasks(refresh);
             
-            const taskInfos: TaskInfo[] = tasks.map(task => ({
-                name: task.name,
-                source: task.source,
-                group: (task.group as any)?.kind || 'none',
-                scope: this.getScopeString(task.scope || vscode.TaskScope.Workspace),
-                definition: task.definition,
-                execution: this.getExecutionInfo(task),
-                isBackground: task.isBackground,
-                problemMatchers: task.problemMatchers
-            }));
+            const taskInfos = tasks.map(task => this.toTaskInfo(task));
 
             this.logger.info(`Found ${taskInfos.length} tasks`);
             return taskInfos;
@@ -87,13 +447,79 @@ export class TaskProvider {
         }
     }
 
+    /**
+     * Drops the cached task list, e.g. after tasks.json was edited, so that the
+     * next caller sees the change without waiting for the file watcher.
+     */
+    invalidateTasks(reason: string): void {
+        this.taskList.invalidate(reason);
+    }
+
+    private async getVisibleTasks(refresh = false): Promise<vscode.Task[]> {
+        return (await this.taskList.get(refresh))
+            .filter(task => !this.policy.isHidden(this.getPolicySubject(task)));
+    }
+
+    private toTaskInfo(task: vscode.Task): TaskInfo {
+        return {
+            id: getTaskNodeId(this.getPolicySubject(task)),
+            name: task.name,
+            source: task.source,
+            group: this.getGroupName(task),
+            scope: this.getScopeString(task.scope || vscode.TaskScope.Workspace),
+            detail: task.detail,
+            definition: task.definition,
+            execution: this.getExecutionInfo(task),
+            isBackground: task.isBackground,
+            problemMatchers: task.problemMatchers,
+            inputs: this.getTaskInputs(task),
+            dependsOn: this.getDependsOn(task),
+            dependsOrder: task.definition.dependsOrder
+        };
+    }
+
+    private getDependsOn(task: vscode.Task): TaskDependencyReference[] | undefined {
+        const dependsOn = task.definition.dependsOn;
+        if (dependsOn === undefined) {
+            return undefined;
+        }
+        return Array.isArray(dependsOn) ? dependsOn : [dependsOn];
+    }
+
+    /**
+     * Returns the dependency graph of all tasks, or only of the given task and
+     * its dependencies.
+     */
+    async getTaskGraph(selector: TaskSelector = {}): Promise<TaskGraph> {
+        const graph = buildTaskGraph(await this.getAllTasks());
+        if (!selector.taskName && !selector.taskId) {
+            return graph;
+        }
+
+        const root = selectTask(graph.nodes, selector, node => node);
+        return getSubgraph(graph, root.id);
+    }
+
+    private getGroupName(task: vscode.Task): string {
+        return task.group?.id || 'none';
+    }
+
+    private getPolicySubject(task: vscode.Task): TaskPolicySubject {
+        return {
+            name: task.name,
+            source: task.source,
+            group: this.getGroupName(task),
+            scope: this.getScopeString(task.scope || vscode.TaskScope.Workspace)
+        };
+    }
+
     private getScopeString(scope: vscode.TaskScope | vscode.WorkspaceFolder): string {
         if (scope === vscode.TaskScope.Global) {
             return 'global';
         } else if (scope === vscode.TaskScope.Workspace) {
             return 'workspace';
         } else if (typeof scope === 'object' && 'name' in scope) {
-            return `folder:${scope.name}`;
+            return getFolderScope(scope);
         }
         return 'unknown';
     }
@@ -127,65 +553,1040 @@ export class TaskProvider {
         return undefined;
     }
 
-    async executeTask(taskName: string, source?: string): Promise<TaskExecutionResult> {
+    /**
+     * Returns the tasks.json inputs that the task references as `${input:id}`.
+     */
+    private getTaskInputs(task: vscode.Task): TaskInputInfo[] {
+        const referenced = findInputReferences(JSON.stringify(task.definition));
+        if (referenced.length === 0) {
+            return [];
+        }
+
+        const folder = typeof task.scope === 'object' ? task.scope : undefined;
+        const declared = vscode.workspace.getConfiguration('tasks', folder?.uri).get<any[]>('inputs', []);
+
+        return referenced.map(id => {
+            const input = declared.find(candidate => candidate?.id === id);
+            if (!input) {
+                return { id, type: 'promptString' };
+            }
+            return {
+                id,
+                type: input.type,
+                description: input.description,
+                default: input.default,
+                options: Array.isArray(input.options)
+                    ? input.options.map((option: any) => typeof option === 'string' ? option : option.value)
+                    : undefined,
+                password: input.password
+            };
+        });
+    }
+
+    /**
+     * Runs a task to completion. Background tasks return as soon as they are
+     * ready instead, with status 'ready', and keep running. A run still going
+     * when its timeout elapses is terminated or left running, as configured
+     * for the task or chosen by the caller, and reported as 'timedOut'.
+     */
+    async executeTask(
+        selector: TaskSelector,
+        overrides?: TaskExecutionOverrides,
+        readiness?: TaskReadinessOptions,
+        context: TaskRunContext = {}
+    ): Promise<TaskExecutionResult> {
+        const run = await this.startTask(selector, overrides, readiness);
+        const taskRun = this.runs.get(run.runId);
+        // Background runs started by users have no readiness signal and count as ready
+        if (run.attached && taskRun && !taskRun.background && this.isBackgroundRun(taskRun) && !this.isQueued(taskRun)) {
+            return this.getSnapshotResult(taskRun, 'ready', Date.now());
+        }
+        const timeout = this.getTimeout(run.runId, context);
+        const finished = await this.waitForRequestedRun(run, timeout.timeoutMs, context);
+
+        if (finished.result) {
+            return finished.result;
+        }
+        if (taskRun?.background?.isReady) {
+            return this.getSnapshotResult(taskRun, 'ready', taskRun.background.readyAt ?? Date.now());
+        }
+        return await this.handleTimeout(run, timeout.timeoutMs ?? 0, timeout.onTimeout);
+    }
+
+    /**
+     * Returns how long to wait for a run and what to do when the time is up:
+     * the caller's choice, else the first matching timeout rule, else the
+     * defaults. An undefined timeout waits until the run finishes.
+     */
+    private getTimeout(runId: string, context: TaskRunContext): { timeoutMs?: number; onTimeout: TaskTimeoutAction } {
+        const run = this.runs.get(runId);
+        const rule = run && this.config.taskTimeouts.find(r =>
+            matchesGlob(run.taskName, r.name) &&
+            matchesGlob(run.source, r.source) &&
+            matchesGlob(run.group, r.group)
+        );
+        const timeoutSeconds = rule?.timeoutSeconds ?? this.config.defaultTimeoutSeconds;
+        return {
+            timeoutMs: context.timeoutMs ?? (timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined),
+            onTimeout: context.onTimeout ?? rule?.onTimeout ?? this.config.onTimeout
+        };
+    }
+
+    /**
+     * Deals with a run that outlived its timeout. It is either terminated and
+     * recorded as timed out, or left running and reported as timed out with its
+     * run ID so that the caller can keep following it.
+     */
+    private async handleTimeout(runInfo: TaskRunInfo, timeoutMs: number, onTimeout: TaskTimeoutAction): Promise<TaskExecutionResult> {
+        const run = this.runs.get(runInfo.runId);
+        const timeoutText = formatTimeout(timeoutMs);
+        if (!run) {
+            throw new Error(`Task '${runInfo.taskName}' timed out after ${timeoutText} (run ID: ${runInfo.runId})`);
+        }
+
+        // A caller that attached to an existing run does not own it and never terminates it
+        if (onTimeout === 'keepRunning' || runInfo.attached) {
+            this.logger.warn(`Task run timed out, leaving it running: ${run.taskName}`, { runId: run.runId, timeoutMs });
+            const state = this.isQueued(run) ? 'queued' : 'running';
+            const result = this.getSnapshotResult(run, 'timedOut', Date.now());
+            const message = `Task '${run.taskName}' timed out after ${timeoutText} and is still ${state}. ` +
+                `Follow it with wait_for_task or get_task_result using run ID ${run.runId}, or stop it with terminate_task`;
+            result.error = result.error ? `${message}\n${result.error}` : message;
+            return result;
+        }
+
+        const message = `Task '${run.taskName}' timed out after ${timeoutText} and was terminated`;
+        this.logger.warn(`Task run timed out, terminating: ${run.taskName}`, { runId: run.runId, timeoutMs });
+        run.lifecycle.timedOut = true;
+        run.error = message;
+        this.stopRun(run, false);
+
+        const finished = await this.waitForTask(run.runId, PROCESS_END_GRACE_MS * 5);
+        if (!finished.result) {
+            throw new Error(`${message} (run ID: ${run.runId})`);
+        }
+        return finished.result;
+    }
+
+    /**
+     * Result for a run that is still going: a background run that is ready, or
+     * a run left running after its timeout.
+     */
+    private getSnapshotResult(run: TaskRun, status: 'ready' | 'timedOut', endTime: number): TaskExecutionResult {
+        const lifecycle = run.lifecycle;
+        const startTime = lifecycle.startedAt ?? lifecycle.queuedAt ?? endTime;
+        const result: TaskExecutionResult = {
+            taskName: run.taskName,
+            runId: run.runId,
+            status,
+            processId: lifecycle.processId,
+            success: status === 'ready',
+            startTime,
+            endTime,
+            duration: endTime - startTime,
+            problems: run.problems?.collect(),
+            readyReason: status === 'ready' ? run.background?.readyReason : undefined
+        };
+        return this.attachOutput(result, run);
+    }
+
+    /**
+     * Launches a task and returns as soon as it has started or been queued. The
+     * run can be followed up with getTaskResult or waitForTask using the
+     * returned run ID.
+     */
+    async startTask(
+        selector: TaskSelector,
+        overrides?: TaskExecutionOverrides,
+        readiness?: TaskReadinessOptions
+    ): Promise<TaskRunInfo> {
+        const taskName = selector.taskId || selector.taskName;
         try {
-            this.logger.info(`Attempting to execute task: ${taskName}`, { source });
+            this.logger.info(`Attempting to execute task: ${taskName}`, { source: selector.source, folder: selector.folder, overrides });
             
-            const tasks = await vscode.tasks.fetchTasks();
-            let targetTask = tasks.find(task => task.name === taskName);
-            
-            if (!targetTask && source) {
-                targetTask = tasks.find(task => task.name === taskName && task.source === source);
+            let tasks = await this.getVisibleTasks();
+            // A task missing from the cache may have been added since; look again before failing
+            const matches = createTaskMatcher(selector);
+            if (!tasks.some(task => matches(this.getPolicySubject(task)))) {
+                tasks = await this.getVisibleTasks(true);
+            }
+            const targetTask = selectTask(tasks, selector, task => this.getPolicySubject(task));
+
+            await this.policy.authorize(this.getPolicySubject(targetTask), 'execute');
+            return await this.launchTask(targetTask, overrides || {}, readiness);
+
+        } catch (error) {
+            this.logger.error(`Failed to execute task: ${taskName}`, { 
+                error: error instanceof Error ? error.message : error 
+            });
+            throw new Error(`Failed to execute task '${taskName}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Starts a run of the task, or queues it while the concurrency limit is
+     * reached or another run of the same task is active. The task's
+     * concurrency policy decides what happens when it is already running.
+     */
+    private async launchTask(task: vscode.Task, overrides: TaskExecutionOverrides, readiness?: TaskReadinessOptions): Promise<TaskRunInfo> {
+        const activeRuns = this.getActiveRuns(getTaskNodeId(this.getPolicySubject(task)));
+        const activeRun = activeRuns[activeRuns.length - 1];
+        let policy = this.getConcurrencyPolicy(task);
+        // A background run never finishes, so a run queued behind it would never start
+        if (activeRun && policy === 'queue' && this.isBackgroundRun(activeRun)) {
+            policy = 'attach';
+        }
+        if (activeRun && policy === 'reject') {
+            throw new Error(`Task '${task.name}' is already ${this.isQueued(activeRun) ? 'queued' : 'running'} (run ID: ${activeRun.runId})`);
+        }
+        if (activeRun && policy === 'attach') {
+            this.logger.info(`Attached to the active run of task: ${task.name}`, { runId: activeRun.runId });
+            return { ...this.toRunInfo(activeRun), attached: true };
+        }
+
+        const run = this.createRun(randomUUID(), task, 'agent', {
+            state: 'queued',
+            queuedAt: Date.now(),
+            terminated: false
+        });
+        const runnable = this.prepareTask(task, run, overrides);
+        if (task.isBackground || readiness?.pattern || readiness?.port !== undefined) {
+            const patterns = getBackgroundPatterns(resolveTaskMatchers(task));
+            run.background = new BackgroundTaskWatcher(patterns, readiness || {}, run.capture !== undefined);
+        }
+        if (this.getDependsOn(task)) {
+            run.dependencies = await this.resolveDependencies(task);
+        }
+        if (activeRun && policy === 'restart') {
+            await this.policy.authorize(this.getPolicySubject(task), 'terminate');
+            activeRuns.forEach(active => this.stopRun(active, false));
+            this.logger.info(`Restarting task: ${task.name}`, { replacedRunIds: activeRuns.map(active => active.runId) });
+        }
+
+        // Decided before the run is registered, so that it does not take up a slot itself
+        const mustWait = this.getBlockingRun(run) !== undefined || !this.hasFreeSlot();
+        // Registered before launching so that dependency runs started by VSCode can find it
+        this.runs.set(run.runId, run);
+        if (mustWait) {
+            this.queue.push({ run, task, runnable });
+            this.logger.info(`Task run queued: ${task.name}`, { runId: run.runId, position: this.queue.length });
+            return this.toRunInfo(run);
+        }
+
+        try {
+            await this.startRun(run, runnable);
+        } catch (error) {
+            this.runs.delete(run.runId);
+            run.background?.dispose();
+            throw error;
+        }
+        return this.toRunInfo(run);
+    }
+
+    private async startRun(run: TaskRun, runnable: vscode.Task): Promise<void> {
+        // A background run gives up its slot once it is ready
+        run.background?.ready.then(() => this.processQueue());
+        const execution = await vscode.tasks.executeTask(runnable);
+        this.bindRun(run, execution);
+        // Stopped, e.g. by a restart, while VSCode was still launching it
+        if (run.lifecycle.terminated) {
+            execution.terminate();
+        }
+        this.logger.info(`Task run started: ${run.taskName}`, { runId: run.runId });
+    }
+
+    /**
+     * Starts queued runs in order as far as the concurrency limit allows. Runs
+     * waiting for another run of the same task are skipped, so that they do not
+     * hold up runs of other tasks.
+     */
+    private processQueue(): void {
+        for (const entry of [...this.queue]) {
+            if (this.getBlockingRun(entry.run)) {
+                continue;
             }
+            if (!this.hasFreeSlot()) {
+                return;
+            }
+
+            const run = entry.run;
+            this.queue.splice(this.queue.indexOf(entry), 1);
+            this.logger.info(`Starting queued task run: ${run.taskName}`, {
+                runId: run.runId,
+                waitedMs: Date.now() - (run.lifecycle.queuedAt ?? Date.now())
+            });
+            this.startRun(run, entry.runnable).catch(error => {
+                const message = error instanceof Error ? error.message : String(error);
+                this.logger.error(`Failed to start queued task run: ${run.taskName}`, { runId: run.runId, error: message });
+                run.error = `Failed to start the task: ${message}`;
+                run.lifecycle.endedAt = Date.now();
+                this.advanceLifecycle(run, 'ended');
+                this.completeRun(run);
+            });
+        }
+    }
+
+    private getConcurrencyPolicy(task: vscode.Task): TaskConcurrencyPolicy {
+        const subject = this.getPolicySubject(task);
+        const rule = this.config.concurrencyRules.find(r =>
+            matchesGlob(subject.name, r.name) &&
+            matchesGlob(subject.source, r.source) &&
+            matchesGlob(subject.group, r.group)
+        );
+        return rule ? rule.ifRunning : this.config.concurrencyDefault;
+    }
 
-            if (!targetTask) {
-                const availableTasks = tasks.map(t => `${t.source}:${t.name}`).join(', ');
-                throw new Error(`Task '${taskName}' not found. Available tasks: ${availableTasks}`);
+    /**
+     * Returns the unfinished runs of a task, queued ones included, oldest first.
+     */
+    private getActiveRuns(taskId: string): TaskRun[] {
+        return Array.from(this.runs.values())
+            .filter(run => !run.result && getTaskNodeId(this.getRunKey(run)) === taskId);
+    }
+
+    /**
+     * Returns the run a queued or new run has to wait for: a started run of the
+     * same task, or one queued ahead of it. Background runs only block until
+     * they are ready, since they never finish on their own, or until they have
+     * ended once they are being terminated.
+     */
+    private getBlockingRun(run: TaskRun): TaskRun | undefined {
+        const position = this.getQueuePosition(run);
+        return this.getActiveRuns(getTaskNodeId(this.getRunKey(run))).find(candidate => {
+            const candidatePosition = this.getQueuePosition(candidate);
+            if (candidate === run) {
+                return false;
+            }
+            if (candidatePosition < 0) {
+                // A run being stopped, e.g. by a restart, may still hold a port or files until it ends.
+                // Runs started by users report no readiness and count as ready.
+                return candidate.lifecycle.terminated || !this.isBackgroundRun(candidate) || candidate.background?.isReady === false;
             }
+            return position < 0 || candidatePosition < position;
+        });
+    }
 
-            const startTime = Date.now();
-            const execution = await vscode.tasks.executeTask(targetTask);
-            const taskId = this.getTaskId(targetTask);
+    /**
+     * Whether the run is of a background task or waits for a readiness signal.
+     */
+    private isBackgroundRun(run: TaskRun): boolean {
+        return run.background !== undefined || run.execution?.task.isBackground === true;
+    }
 
-            // Return a promise that resolves when the task completes
-            return new Promise((resolve, reject) => {
-                const checkCompletion = () => {
-                    const result = this.executionResults.get(taskId);
-                    if (result) {
-                        this.executionResults.delete(taskId);
-                        resolve(result);
-                        return;
-                    }
-                    
-                    // Check if task is still running
-                    if (this.taskExecutions.has(taskId)) {
-                        setTimeout(checkCompletion, 100);
-                    } else {
-                        // Task completed but no result recorded (shouldn't happen)
-                        resolve({
-                            taskName,
-                            success: true,
-                            duration: Date.now() - startTime
-                        });
-                    }
-                };
+    private hasFreeSlot(): boolean {
+        const limit = this.config.maxRunningTasks;
+        return limit <= 0 || this.countRunningAgentRuns() < limit;
+    }
 
-                // Start checking after a brief delay
-                setTimeout(checkCompletion, 100);
+    /**
+     * Counts the started runs that agents asked for. Dependency runs belong to
+     * their compound run, and background runs stop counting once ready.
+     */
+    private countRunningAgentRuns(): number {
+        return Array.from(this.runs.values()).filter(run =>
+            run.trigger === 'agent' && !run.dependent && !run.result && !this.isQueued(run) && !run.background?.isReady
+        ).length;
+    }
+
+    private getQueuePosition(run: TaskRun): number {
+        return this.queue.findIndex(entry => entry.run === run);
+    }
+
+    private isQueued(run: TaskRun): boolean {
+        return this.getQueuePosition(run) >= 0;
+    }
+
+    private getQueueInfo(run: TaskRun): TaskQueueInfo | undefined {
+        const position = this.getQueuePosition(run);
+        if (position < 0) {
+            return undefined;
+        }
+
+        const blocking = this.getBlockingRun(run);
+        const reason = blocking
+            ? `Waiting for run ${blocking.runId} of the same task to finish`
+            : `Waiting for a free slot (${this.countRunningAgentRuns()} of ${this.config.maxRunningTasks} runs in use)`;
+        return {
+            position: position + 1,
+            waitingMs: Date.now() - (run.lifecycle.queuedAt ?? Date.now()),
+            reason,
+            blockedBy: blocking?.runId
+        };
+    }
+
+    private async resolveDependencies(task: vscode.Task): Promise<{ node: TaskGraphNode }[]> {
+        const graph = buildTaskGraph((await this.taskList.get()).map(candidate => this.toTaskInfo(candidate)));
+        return getDependencyIds(graph, getTaskNodeId(this.toTaskInfo(task)))
+            .map(id => ({ node: graph.nodes.find(node => node.id === id)! }));
+    }
 
-                // Set a timeout to prevent hanging indefinitely
-                setTimeout(() => {
-                    if (this.taskExecutions.has(taskId)) {
-                        reject(new Error(`Task '${taskName}' timed out after 5 minutes`));
+    /**
+     * Runs an ad-hoc command as a transient process task, without a shell, so
+     * it shows up in the terminal like any other task. The executable must be
+     * a plain name or path on the allowlist,
+     * the working directory inside the workspace (unless unrestricted), and
+     * environment variables matching the scrub patterns are blanked. Commands
+     * still running after the timeout, if any, are terminated.
+     */
+    async runCommand(request: RunCommandRequest, context: TaskRunContext = {}): Promise<TaskExecutionResult> {
+        const commandLine = [request.command, ...(request.args || [])].join(' ');
+        try {
+            this.logger.info(`Attempting to run command: ${commandLine}`, { cwd: request.cwd });
+
+            const task = this.createCommandTask(request);
+            await this.policy.authorize(this.getPolicySubject(task), 'execute');
+            const run = await this.launchTask(task, {});
+
+            const defaultTimeoutMs = this.config.runCommandTimeoutMs;
+            const timeoutMs = request.timeoutMs ?? (defaultTimeoutMs > 0 ? defaultTimeoutMs : undefined);
+            const finished = await this.waitForRequestedRun(run, timeoutMs, context);
+            if (finished.result) {
+                return finished.result;
+            }
+            return await this.handleTimeout(run, timeoutMs ?? 0, 'terminate');
+
+        } catch (error) {
+            this.logger.error(`Failed to run command: ${commandLine}`, {
+                error: error instanceof Error ? error.message : error
+            });
+            throw new Error(`Failed to run command '${commandLine}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private createCommandTask(request: RunCommandRequest): vscode.Task {
+        const args = request.args || [];
+        const allowlist = this.config.runCommandAllowedExecutables;
+
+        if (allowlist.length === 0) {
+            throw new Error('run_command is disabled; list the executables it may run in mcpTaskServer.runCommand.allowedExecutables');
+        }
+        if ([request.command, ...args, request.cwd || ''].some(value => value.includes('${'))) {
+            throw new Error('Variable references (${...}) are not supported in commands');
+        }
+
+        const folders = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+        const cwd = resolveCommandCwd(request.cwd, folders, this.config.runCommandRestrictToWorkspace);
+        if (!isExecutableAllowed(request.command, allowlist, cwd)) {
+            throw new Error(`Executable '${request.command}' is not allowed. Allowed executables: ${allowlist.join(', ')}`);
+        }
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(cwd));
+
+        const env: { [key: string]: string } = {};
+        for (const name of getScrubbedVariables(process.env, this.config.runCommandScrubbedEnvironment)) {
+            env[name] = '';
+        }
+        Object.assign(env, request.env);
+
+        // Started without a shell, so that no argument is ever interpreted by one
+        const execution = new vscode.ProcessExecution(request.command, args, { cwd, env });
+        const name = [request.command, ...args].join(' ');
+        return new vscode.Task(
+            { type: COMMAND_TASK_TYPE, command: request.command, args },
+            folder ?? vscode.TaskScope.Workspace,
+            name,
+            'MCP',
+            execution,
+            []
+        );
+    }
+
+    /**
+     * Associates a run created by startTask with its TaskExecution. Task events
+     * can arrive before executeTask resolves; any run recorded for them in the
+     * meantime is folded into this one.
+     */
+    private bindRun(run: TaskRun, execution: vscode.TaskExecution): void {
+        const earlyRunId = this.executionRunIds.get(execution);
+        const earlyRun = earlyRunId ? this.runs.get(earlyRunId) : undefined;
+
+        this.executionRunIds.set(execution, run.runId);
+        run.execution = execution;
+        this.runs.set(run.runId, run);
+
+        if (earlyRun && earlyRunId) {
+            this.runs.delete(earlyRunId);
+            const lifecycle = run.lifecycle;
+            const early = earlyRun.lifecycle;
+            lifecycle.startedAt = lifecycle.startedAt ?? early.startedAt;
+            lifecycle.processStartedAt = lifecycle.processStartedAt ?? early.processStartedAt;
+            lifecycle.processId = lifecycle.processId ?? early.processId;
+            lifecycle.processEndedAt = lifecycle.processEndedAt ?? early.processEndedAt;
+            lifecycle.exitCode = lifecycle.exitCode ?? early.exitCode;
+            lifecycle.endedAt = lifecycle.endedAt ?? early.endedAt;
+            this.advanceLifecycle(run, early.state);
+            if (lifecycle.processStartedAt !== undefined) {
+                run.background?.onProcessStarted();
+            }
+
+            if (early.endedAt !== undefined) {
+                this.recordEnded(run);
+            }
+        }
+    }
+
+    /**
+     * Waits for a run launched on behalf of an MCP request. If the request is
+     * cancelled while waiting, the run is terminated and recorded as cancelled.
+     */
+    private async waitForRequestedRun(run: TaskRunInfo, timeoutMs: number | undefined, context: TaskRunContext): Promise<TaskRunInfo> {
+        context.onStarted?.(run);
+
+        const signal = context.signal;
+        // A caller that attached to an existing run does not own it and leaves it running
+        const cancel = () => {
+            if (!run.attached) {
+                this.cancelRun(run.runId);
+            }
+        };
+        if (signal?.aborted) {
+            cancel();
+        }
+        signal?.addEventListener('abort', cancel, { once: true });
+
+        let finished: TaskRunInfo;
+        try {
+            finished = await this.waitForTask(run.runId, timeoutMs, signal);
+        } finally {
+            signal?.removeEventListener('abort', cancel);
+        }
+
+        if (signal?.aborted) {
+            throw new Error(`Task '${run.taskName}' was cancelled (run ID: ${run.runId})`);
+        }
+        return finished;
+    }
+
+    /**
+     * Terminates a run, and the dependency runs it started, because the request
+     * waiting for it was cancelled.
+     */
+    private cancelRun(runId: string): void {
+        const run = this.runs.get(runId);
+        if (!run || run.result) {
+            return;
+        }
+
+        this.stopRun(run, true);
+        for (const dependency of run.dependencies || []) {
+            if (dependency.run) {
+                this.stopRun(dependency.run, true);
+            }
+        }
+        this.logger.info(`Cancelled task run: ${run.taskName}`, { runId });
+    }
+
+    /**
+     * Terminates a run. A queued run is taken out of the queue and ends
+     * without having started.
+     */
+    private stopRun(run: TaskRun, cancelled: boolean): void {
+        if (run.result) {
+            return;
+        }
+
+        run.lifecycle.terminated = true;
+        if (cancelled) {
+            run.lifecycle.cancelled = true;
+        }
+
+        const position = this.getQueuePosition(run);
+        if (position < 0) {
+            run.execution?.terminate();
+            return;
+        }
+        this.queue.splice(position, 1);
+        run.lifecycle.endedAt = Date.now();
+        this.advanceLifecycle(run, 'ended');
+        this.completeRun(run);
+    }
+
+    getTaskResult(runId: string): TaskRunInfo | undefined {
+        const run = this.runs.get(runId);
+        return run ? this.toRunInfo(run) : undefined;
+    }
+
+    /**
+     * Waits up to timeoutMs for a run to finish, or for a background run to
+     * become ready, and returns its state. A run that is still going when the
+     * timeout elapses, or when the signal aborts, is returned as it stands.
+     * Without a timeout it waits until the run finishes or the signal aborts.
+     */
+    async waitForTask(runId: string, timeoutMs: number | undefined, signal?: AbortSignal): Promise<TaskRunInfo> {
+        const run = this.runs.get(runId);
+        if (!run) {
+            throw new Error(`No task run found with ID: ${runId}`);
+        }
+
+        if (!run.result && !run.background?.isReady && !signal?.aborted) {
+            let timer: NodeJS.Timeout | undefined;
+            let onAbort: (() => void) | undefined;
+            // Only background runs have a ready signal; racing undefined would resolve at once
+            const waits: Promise<unknown>[] = [run.completion];
+            if (run.background) {
+                waits.push(run.background.ready);
+            }
+            await Promise.race([
+                ...waits,
+                new Promise<void>(resolve => {
+                    if (timeoutMs !== undefined) {
+                        timer = setTimeout(resolve, timeoutMs);
                     }
-                }, 5 * 60 * 1000); // 5 minutes timeout
+                    onAbort = resolve;
+                    signal?.addEventListener('abort', onAbort, { once: true });
+                })
+            ]);
+            clearTimeout(timer);
+            if (onAbort) {
+                signal?.removeEventListener('abort', onAbort);
+            }
+        }
+
+        return this.toRunInfo(run);
+    }
+
+    private toRunInfo(run: TaskRun): TaskRunInfo {
+        const lifecycle = run.lifecycle;
+        const queue = this.getQueueInfo(run);
+        return {
+            runId: run.runId,
+            taskName: run.taskName,
+            source: run.source,
+            status: run.result ? run.result.status : queue ? 'queued' : run.background?.isReady ? 'ready' : 'running',
+            startTime: lifecycle.startedAt ?? lifecycle.processStartedAt ?? lifecycle.queuedAt ?? Date.now(),
+            lifecycle: { ...lifecycle },
+            queue,
+            result: run.result
+        };
+    }
+
+    private pruneRuns(): void {
+        const finished = Array.from(this.runs.values()).filter(run => run.result);
+
+        finished.slice(0, Math.max(0, finished.length - MAX_RETAINED_RUNS))
+            .forEach(run => this.runs.delete(run.runId));
+        finished.slice(0, Math.max(0, finished.length - MAX_RETAINED_OUTPUTS))
+            .forEach(run => {
+                run.capture = undefined;
             });
+    }
+
+    /**
+     * Returns the full captured output of a run, looked up by run ID or, when
+     * only a task is given, of that task's most recent captured run.
+     */
+    getTaskOutput(selector?: TaskSelector, runId?: string): TaskOutputInfo | undefined {
+        let capture: TaskOutputCapture | undefined;
+        if (runId) {
+            capture = this.runs.get(runId)?.capture;
+        } else if (selector) {
+            capture = this.findLatestRun(selector, run => run.capture !== undefined)?.capture;
+        }
+
+        if (!capture) {
+            return undefined;
+        }
 
+        return {
+            taskName: capture.taskName,
+            output: capture.output.getText(),
+            totalLength: capture.output.length,
+            truncated: capture.output.isTruncated(),
+            completed: capture.completed
+        };
+    }
+
+    /**
+     * Returns the runs whose output is still retained, newest first.
+     */
+    getCapturedRuns(): TaskRunInfo[] {
+        return Array.from(this.runs.values())
+            .filter(run => run.capture)
+            .reverse()
+            .map(run => this.toRunInfo(run));
+    }
+
+    /**
+     * Returns the problem matcher diagnostics of a run, looked up by run ID or,
+     * when only a task is given, of that task's most recent run. Runs that are
+     * still going report the diagnostics seen so far.
+     */
+    getTaskProblems(selector?: TaskSelector, runId?: string): TaskProblemsInfo | undefined {
+        let run: TaskRun | undefined;
+        if (runId) {
+            run = this.runs.get(runId);
+        } else if (selector) {
+            run = this.findLatestRun(selector, () => true);
+        }
+
+        if (!run) {
+            return undefined;
+        }
+
+        return {
+            taskName: run.taskName,
+            runId: run.runId,
+            problems: run.result ? run.result.problems || [] : run.problems?.collect() || [],
+            completed: run.result !== undefined
+        };
+    }
+
+    /**
+     * Returns the most recent run of the selected task that passes the filter.
+     * Fails if the selector matches runs of several tasks.
+     */
+    private findLatestRun(selector: TaskSelector, filter: (run: TaskRun) => boolean): TaskRun | undefined {
+        const runs = Array.from(this.runs.values()).reverse().filter(filter);
+        return filterTask(runs, selector, run => this.getRunKey(run))[0];
+    }
+
+    private getRunKey(run: TaskRun): TaskKey {
+        return { name: run.taskName, source: run.source, scope: run.scope };
+    }
+
+    getRunHistory(query: TaskHistoryQuery): TaskHistoryRecord[] {
+        return this.history.query(query);
+    }
+
+    /**
+     * Returns the readiness and watch-cycle state of a background run, looked
+     * up by run ID or, when only a task is given, of that task's most recent
+     * background run.
+     */
+    getBackgroundTaskStatus(selector?: TaskSelector, runId?: string): BackgroundTaskStatus | undefined {
+        let run: TaskRun | undefined;
+        if (runId) {
+            run = this.runs.get(runId);
+        } else if (selector) {
+            run = this.findLatestRun(selector, candidate => candidate.background !== undefined);
+        }
+
+        const background = run?.background;
+        if (!run || !background) {
+            return undefined;
+        }
+
+        return {
+            taskName: run.taskName,
+            runId: run.runId,
+            running: run.result === undefined,
+            ready: background.isReady,
+            readyReason: background.readyReason,
+            readyAt: background.readyAt,
+            cycleState: background.cycleState,
+            completedCycles: background.completedCycles,
+            lastCycleStartedAt: background.lastCycleStartedAt,
+            lastCycleEndedAt: background.lastCycleEndedAt,
+            problems: run.result ? run.result.problems || [] : run.problems?.collect() || []
+        };
+    }
+
+    private attachOutput(result: TaskExecutionResult, run: TaskRun): TaskExecutionResult {
+        const capture = run.capture;
+        if (!capture) {
+            return result;
+        }
+
+        const maxLength = this.config.maxOutputLength;
+        result.output = capture.output.getText(maxLength);
+        result.outputTruncated = capture.output.isTruncated(maxLength);
+        if (!result.success && !capture.stderr.isEmpty()) {
+            const stderr = capture.stderr.getText(maxLength);
+            result.error = result.error ? `${result.error}\n${stderr}` : stderr;
+        }
+        return result;
+    }
+
+    /**
+     * Returns the task to hand to VSCode for a run. Shell and process tasks are
+     * re-created with variables, inputs and overrides applied, wrapped for output
+     * capture when enabled. Tasks that cannot be re-created faithfully run
+     * unchanged, unless the caller asked for overrides that would then be lost.
+     */
+    private prepareTask(task: vscode.Task, run: TaskRun, overrides: TaskExecutionOverrides): vscode.Task {
+        const inputs = this.getTaskInputs(task);
+        const parameterized = !!(overrides.args?.length || overrides.cwd ||
+            Object.keys(overrides.env || {}).length || Object.keys(overrides.inputs || {}).length);
+
+        const nativeReason = this.getNativeOnlyReason(task);
+        if (nativeReason) {
+            if (parameterized) {
+                throw new Error(`Task '${task.name}' ${nativeReason}, so args, env, cwd and inputs cannot be applied`);
+            }
+            this.logger.debug(`Running task without output capture: ${task.name}`, { reason: nativeReason });
+            return task;
+        }
+
+        let resolved: ResolvedExecution | undefined;
+        try {
+            resolved = this.resolveExecution(task, overrides, inputs);
         } catch (error) {
-            this.logger.error(`Failed to execute task: ${taskName}`, { 
-                error: error instanceof Error ? error.message : error 
+            if (error instanceof MissingInputError) {
+                const input = inputs.find(i => i.id === error.inputId);
+                const description = input?.description ? ` (${input.description})` : '';
+                throw new Error(`Task '${task.name}' needs a value for input '${error.inputId}'${description}. Pass it in 'inputs'.`);
+            }
+            if (parameterized) {
+                throw new Error(`Cannot apply parameters to task '${task.name}': ${error instanceof Error ? error.message : error}`);
+            }
+            this.logger.debug(`Running task without output capture: ${task.name}`, {
+                reason: error instanceof Error ? error.message : error
             });
-            throw new Error(`Failed to execute task '${taskName}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return task;
+        }
+
+        if (!resolved) {
+            if (parameterized) {
+                throw new Error(`Task '${task.name}' does not run a shell command or process, so args, env, cwd and inputs cannot be applied`);
+            }
+            return task;
+        }
+
+        if (this.config.captureOutput && this.canCapture(resolved)) {
+            return this.createCapturedTask(task, run, resolved);
+        }
+        if (parameterized || inputs.length > 0) {
+            return this.copyTask(task, this.toExecution(resolved));
+        }
+        return task;
+    }
+
+    /**
+     * A re-created task is built through the API, which has no `dependsOn` and
+     * takes problem matchers by name only. Tasks that use either must run as
+     * defined in tasks.json, or VSCode would skip their dependencies and drop
+     * their inline matchers.
+     */
+    private getNativeOnlyReason(task: vscode.Task): string | undefined {
+        if (this.getDependsOn(task)) {
+            return 'has dependsOn, which only applies when it runs as defined in tasks.json';
+        }
+        const problemMatcher = task.definition.problemMatcher;
+        const matchers: unknown[] = Array.isArray(problemMatcher) ? problemMatcher : [problemMatcher];
+        if (matchers.some(matcher => typeof matcher === 'object' && matcher !== null)) {
+            return 'has an inline problem matcher, which only applies when it runs as defined in tasks.json';
+        }
+        return undefined;
+    }
+
+    /**
+     * Captured shell commands run through /bin/sh unless the task names its own
+     * shell. VSCode would run them in the automation or default terminal shell
+     * instead, e.g. PowerShell on Windows, so tasks written for a shell that is
+     * not sh-compatible keep their native execution and are not captured.
+     */
+    private canCapture(resolved: ResolvedExecution): boolean {
+        if (resolved.kind === 'process' || resolved.executable) {
+            return true;
+        }
+        if (process.platform === 'win32') {
+            this.logger.debug('Running shell task without output capture: Windows shells are not sh-compatible');
+            return false;
+        }
+        const shell = this.getTaskShellPath();
+        if (shell && !/(^|\/)(sh|bash|dash|zsh|ksh)$/.test(shell)) {
+            this.logger.debug('Running shell task without output capture: the task shell is not sh-compatible', { shell });
+            return false;
+        }
+        return true;
+    }
+
+    // The shell VSCode runs tasks in: the automation profile, else the default terminal profile
+    private getTaskShellPath(): string | undefined {
+        const platform = process.platform === 'darwin' ? 'osx' : 'linux';
+        const terminal = vscode.workspace.getConfiguration('terminal.integrated');
+        const automationProfile = terminal.get<{ path?: string }>(`automationProfile.${platform}`);
+        const defaultProfile = terminal.get<string>(`defaultProfile.${platform}`);
+        const profiles = terminal.get<{ [name: string]: { path?: string | string[] } | null }>(`profiles.${platform}`, {});
+        const shellPath = automationProfile?.path ?? (defaultProfile ? profiles[defaultProfile]?.path : undefined);
+        return Array.isArray(shellPath) ? shellPath[0] : shellPath;
+    }
+
+    /**
+     * Wraps a resolved execution in a CustomExecution that runs the same
+     * command through a capturing pseudoterminal.
+     */
+    private createCapturedTask(task: vscode.Task, run: TaskRun, resolved: ResolvedExecution): vscode.Task {
+        const processSpec = this.toProcessSpec(resolved);
+        const capture: TaskOutputCapture = {
+            taskName: task.name,
+            output: new OutputBuffer(),
+            stderr: new OutputBuffer(),
+            completed: false
+        };
+        run.capture = capture;
+        run.expectsProcess = true;
+
+        const execution = new vscode.CustomExecution(async () => {
+            return new CapturingPseudoterminal(processSpec, {
+                onOutput: (data, stream) => {
+                    capture.output.append(data);
+                    run.background?.onOutput(data);
+                    if (stream === 'stderr') {
+                        capture.stderr.append(data);
+                    }
+                    this.runUpdated.fire({ runId: run.runId, taskName: run.taskName, kind: 'output', output: data });
+                },
+                onProcessStarted: (processId) => {
+                    this.recordProcessStarted(run, processId);
+                    this.logger.debug(`Captured task process started: ${task.name}`, { runId: run.runId, processId });
+                },
+                onProcessEnded: (exitCode) => {
+                    this.recordProcessEnded(run, exitCode);
+                    this.logger.debug(`Captured task process ended: ${task.name}`, { runId: run.runId, exitCode });
+                }
+            });
+        });
+
+        return this.copyTask(task, execution);
+    }
+
+    private copyTask(task: vscode.Task, execution: vscode.ShellExecution | vscode.ProcessExecution | vscode.CustomExecution): vscode.Task {
+        const copy = new vscode.Task(
+            task.definition,
+            (task.scope ?? vscode.TaskScope.Workspace) as vscode.WorkspaceFolder | vscode.TaskScope.Global | vscode.TaskScope.Workspace,
+            task.name,
+            task.source,
+            execution,
+            task.problemMatchers
+        );
+        copy.group = task.group;
+        copy.detail = task.detail;
+        copy.isBackground = task.isBackground;
+        copy.presentationOptions = task.presentationOptions;
+        copy.runOptions = task.runOptions;
+        return copy;
+    }
+
+    private resolveExecution(task: vscode.Task, overrides: TaskExecutionOverrides, inputs: TaskInputInfo[]): ResolvedExecution | undefined {
+        const folder = typeof task.scope === 'object' ? task.scope : undefined;
+        const resolver = new VariableResolver(folder, overrides.inputs, inputs);
+        const execution = task.execution;
+
+        if (!(execution instanceof vscode.ShellExecution) && !(execution instanceof vscode.ProcessExecution)) {
+            return undefined;
+        }
+
+        const options = execution.options;
+        const cwd = this.resolveCwd(
+            overrides.cwd ? resolver.resolve(overrides.cwd) : options?.cwd ? resolver.resolve(options.cwd) : undefined,
+            (folder ?? vscode.workspace.workspaceFolders?.[0])?.uri.fsPath
+        );
+        const env: { [key: string]: string } = {};
+        for (const [key, value] of Object.entries(options?.env || {})) {
+            env[key] = resolver.resolve(value);
+        }
+        Object.assign(env, overrides.env);
+        const extraArgs = overrides.args || [];
+
+        if (execution instanceof vscode.ProcessExecution) {
+            return {
+                kind: 'process',
+                command: resolver.resolve(execution.process),
+                args: [...resolver.resolveAll(execution.args), ...extraArgs],
+                cwd,
+                env
+            };
+        }
+
+        let commandLine: string;
+        if (execution.commandLine !== undefined) {
+            commandLine = resolver.resolve(execution.commandLine);
+        } else if (execution.command !== undefined) {
+            commandLine = [execution.command, ...(execution.args || [])]
+                .map(arg => this.quoteShellArgument(arg, resolver))
+                .join(' ');
+        } else {
+            return undefined;
+        }
+        if (extraArgs.length > 0) {
+            const quoted = extraArgs.map(arg => this.quoteShellArgument({ value: arg, quoting: vscode.ShellQuoting.Strong }, resolver));
+            commandLine = [commandLine, ...quoted].join(' ');
+        }
+
+        const shellOptions = execution.options;
+        return {
+            kind: 'shell',
+            command: commandLine,
+            args: [],
+            executable: shellOptions?.executable ? resolver.resolve(shellOptions.executable) : undefined,
+            shellArgs: shellOptions?.shellArgs ? resolver.resolveAll(shellOptions.shellArgs) : undefined,
+            cwd,
+            env
+        };
+    }
+
+    /**
+     * Resolves a relative working directory against the task's workspace
+     * folder, as VSCode does, and checks that it exists. Without one the task
+     * runs in the folder itself.
+     */
+    private resolveCwd(cwd: string | undefined, folderPath: string | undefined): string | undefined {
+        if (!cwd) {
+            return folderPath;
+        }
+        if (!path.isAbsolute(cwd) && !folderPath) {
+            throw new Error(`Relative working directory '${cwd}' needs an open workspace folder`);
+        }
+
+        const resolved = path.resolve(folderPath || '', cwd);
+        if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+            throw new Error(`Working directory '${resolved}' does not exist`);
+        }
+        return resolved;
+    }
+
+    private toProcessSpec(resolved: ResolvedExecution): CapturedProcessSpec {
+        const env = { ...process.env, ...resolved.env };
+
+        if (resolved.kind === 'process') {
+            return { command: resolved.command, args: resolved.args, cwd: resolved.cwd, env };
+        }
+        if (resolved.executable && resolved.shellArgs) {
+            return {
+                command: resolved.executable,
+                args: [...resolved.shellArgs, resolved.command],
+                cwd: resolved.cwd,
+                env
+            };
+        }
+        return {
+            command: resolved.command,
+            args: [],
+            shell: resolved.executable || true,
+            cwd: resolved.cwd,
+            env
+        };
+    }
+
+    private toExecution(resolved: ResolvedExecution): vscode.ShellExecution | vscode.ProcessExecution {
+        if (resolved.kind === 'process') {
+            return new vscode.ProcessExecution(resolved.command, resolved.args, {
+                cwd: resolved.cwd,
+                env: resolved.env
+            });
+        }
+        return new vscode.ShellExecution(resolved.command, {
+            cwd: resolved.cwd,
+            env: resolved.env,
+            executable: resolved.executable,
+            shellArgs: resolved.shellArgs
+        });
+    }
+
+    private quoteShellArgument(arg: string | vscode.ShellQuotedString, resolver: VariableResolver): string {
+        if (typeof arg === 'string') {
+            const value = resolver.resolve(arg);
+            return /\s/.test(value) ? `"${value}"` : value;
+        }
+
+        const value = resolver.resolve(arg.value);
+        switch (arg.quoting) {
+            case vscode.ShellQuoting.Escape:
+                return value.replace(/([\s"'\\$`])/g, '\\$1');
+            case vscode.ShellQuoting.Strong:
+                return `'${value.replace(/'/g, `'\\''`)}'`;
+            case vscode.ShellQuoting.Weak:
+                return `"${value}"`;
         }
     }
 
@@ -193,39 +1594,76 @@ export class TaskProvider {
         const runningTasks: TaskInfo[] = [];
         
         for (const execution of vscode.tasks.taskExecutions) {
+            const run = this.getRunForExecution(execution);
             const taskInfo: TaskInfo = {
+                id: getTaskNodeId(this.getRunKey(run)),
+                runId: run.runId,
                 name: execution.task.name,
                 source: execution.task.source,
-                group: (execution.task.group as any)?.kind || 'none',
+                group: this.getGroupName(execution.task),
                 scope: this.getScopeString(execution.task.scope || vscode.TaskScope.Workspace),
                 definition: execution.task.definition,
                 execution: this.getExecutionInfo(execution.task),
-                isBackground: execution.task.isBackground
+                isBackground: execution.task.isBackground,
+                lifecycle: { ...run.lifecycle }
             };
             runningTasks.push(taskInfo);
         }
 
-        this.logger.debug(`Found ${runningTasks.length} running tasks`);
+        for (const { run, task } of this.queue) {
+            runningTasks.push({
+                ...this.toTaskInfo(task),
+                runId: run.runId,
+                lifecycle: { ...run.lifecycle },
+                queue: this.getQueueInfo(run)
+            });
+        }
+
+        this.logger.debug(`Found ${runningTasks.length} running or queued tasks`);
         return runningTasks;
     }
 
-    async terminateTask(taskName: string): Promise<boolean> {
+    /**
+     * Terminates a running or queued task by run ID, or by task when exactly one
+     * run of that task is active. Throws when no run or several runs match, or
+     * when the policy denies the termination.
+     */
+    async terminateTask(selector?: TaskSelector, runId?: string): Promise<void> {
+        const taskName = selector?.taskId || selector?.taskName;
+        const target = runId || taskName;
         try {
-            const execution = Array.from(this.taskExecutions.values())
-                .find(exec => exec.task.name === taskName);
-            
-            if (!execution) {
-                throw new Error(`No running task found with name: ${taskName}`);
+            const activeRuns = Array.from(this.runs.values())
+                .filter(run => (run.execution || this.isQueued(run)) && !run.result && run.lifecycle.state !== 'ended');
+
+            let run: TaskRun | undefined;
+            if (runId) {
+                run = activeRuns.find(r => r.runId === runId);
+                if (!run) {
+                    throw new Error(`No running task found with run ID: ${runId}`);
+                }
+            } else {
+                const matches = filterTask(activeRuns, selector || {}, r => this.getRunKey(r));
+
+                if (matches.length === 0) {
+                    throw new Error(`No running task found with name: ${taskName}`);
+                }
+                if (matches.length > 1) {
+                    const runIds = matches.map(r => r.runId).join(', ');
+                    throw new Error(`Multiple runs of task '${taskName}' are active, specify a run ID: ${runIds}`);
+                }
+                run = matches[0];
             }
 
-            execution.terminate();
-            this.logger.info(`Terminated task: ${taskName}`);
-            return true;
+            const task = run.execution?.task ?? this.queue[this.getQueuePosition(run)].task;
+            await this.policy.authorize(this.getPolicySubject(task), 'terminate');
+
+            this.stopRun(run, false);
+            this.logger.info(`Terminated task: ${run.taskName}`, { runId: run.runId });
         } catch (error) {
-            this.logger.error(`Failed to terminate task: ${taskName}`, { 
+            this.logger.error(`Failed to terminate task: ${target}`, { 
                 error: error instanceof Error ? error.message : error 
             });
-            return false;
+            throw new Error(`Failed to terminate '${target}': ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 }
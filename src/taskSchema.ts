@@ -0,0 +1,216 @@
+import * as vscode from 'vscode';
+
+const GROUP_KINDS = ['build', 'test', 'none'];
+const QUOTING_KINDS = ['escape', 'strong', 'weak'];
+const REVEAL_KINDS = ['always', 'silent', 'never'];
+const PANEL_KINDS = ['shared', 'dedicated', 'new'];
+const RUN_ON_KINDS = ['default', 'folderOpen'];
+
+/** A JSON object as read from tasks.json or sent by an MCP client */
+export type JsonObject = { [property: string]: unknown };
+
+/**
+ * Validates a task as it would be written to tasks.json (version 2.0.0) and
+ * returns the problems found. Tasks of types contributed by extensions are
+ * checked for the properties their task definition requires.
+ */
+export function validateTaskDefinition(task: unknown): string[] {
+    const errors: string[] = [];
+    if (!isObject(task)) {
+        return ['Task must be an object'];
+    }
+
+    if (typeof task.label !== 'string' || task.label.trim() === '') {
+        errors.push("'label' must be a non-empty string");
+    }
+    if (typeof task.type !== 'string') {
+        errors.push("'type' must be a string, e.g. 'shell' or 'process'");
+    } else if (task.type === 'shell' || task.type === 'process') {
+        if (task.command === undefined && task.dependsOn === undefined) {
+            errors.push(`'command' is required for '${task.type}' tasks without 'dependsOn'`);
+        }
+    } else {
+        validateContributedType(task, errors);
+    }
+
+    checkCommand(task.command, 'command', errors);
+    if (task.args !== undefined) {
+        if (!Array.isArray(task.args)) {
+            errors.push("'args' must be an array");
+        } else {
+            task.args.forEach((arg: unknown, index: number) => checkCommand(arg, `args[${index}]`, errors));
+        }
+    }
+
+    checkType(task, 'detail', 'string', errors);
+    checkType(task, 'isBackground', 'boolean', errors);
+    checkType(task, 'promptOnClose', 'boolean', errors);
+    checkType(task, 'hide', 'boolean', errors);
+    validateGroup(task.group, errors);
+    validateDependsOn(task, errors);
+    validateProblemMatcher(task.problemMatcher, errors);
+    validateOptions(task.options, 'options', errors);
+    validatePresentation(task.presentation, errors);
+    validateRunOptions(task.runOptions, errors);
+
+    for (const platform of ['windows', 'osx', 'linux']) {
+        const overrides = task[platform];
+        if (overrides !== undefined) {
+            if (!isObject(overrides)) {
+                errors.push(`'${platform}' must be an object`);
+            } else {
+                checkCommand(overrides.command, `${platform}.command`, errors);
+                validateOptions(overrides.options, `${platform}.options`, errors);
+            }
+        }
+    }
+
+    return errors;
+}
+
+function validateContributedType(task: JsonObject, errors: string[]): void {
+    for (const extension of vscode.extensions.all) {
+        const definitions: unknown[] = extension.packageJSON?.contributes?.taskDefinitions || [];
+        const definition = definitions.find(
+            (candidate): candidate is JsonObject => isObject(candidate) && candidate.type === task.type
+        );
+        if (definition) {
+            const required: unknown[] = Array.isArray(definition.required) ? definition.required : [];
+            for (const property of required) {
+                if (typeof property === 'string' && task[property] === undefined) {
+                    errors.push(`'${property}' is required for '${task.type}' tasks`);
+                }
+            }
+            return;
+        }
+    }
+    errors.push(`Unknown task type '${task.type}'. Use 'shell', 'process' or a type contributed by an installed extension`);
+}
+
+function checkCommand(value: unknown, name: string, errors: string[]): void {
+    if (value === undefined || typeof value === 'string') {
+        return;
+    }
+    if (Array.isArray(value) && value.every(part => typeof part === 'string')) {
+        return;
+    }
+    if (isObject(value) && (typeof value.value === 'string' || Array.isArray(value.value))) {
+        if (value.quoting !== undefined && !isOneOf(value.quoting, QUOTING_KINDS)) {
+            errors.push(`'${name}.quoting' must be one of: ${QUOTING_KINDS.join(', ')}`);
+        }
+        return;
+    }
+    errors.push(`'${name}' must be a string, an array of strings or an object with 'value' and 'quoting'`);
+}
+
+function validateGroup(group: unknown, errors: string[]): void {
+    if (group === undefined) {
+        return;
+    }
+    const kind = isObject(group) ? group.kind : group;
+    if (typeof kind !== 'string' || !GROUP_KINDS.includes(kind)) {
+        errors.push(`'group' must be one of ${GROUP_KINDS.join(', ')}, or an object with such a 'kind'`);
+    }
+    if (isObject(group) && group.isDefault !== undefined && typeof group.isDefault !== 'boolean' && typeof group.isDefault !== 'string') {
+        errors.push("'group.isDefault' must be a boolean or a glob string");
+    }
+}
+
+function validateDependsOn(task: JsonObject, errors: string[]): void {
+    const dependsOn = task.dependsOn;
+    if (dependsOn !== undefined) {
+        const entries: unknown[] = Array.isArray(dependsOn) ? dependsOn : [dependsOn];
+        const valid = entries.every(entry => typeof entry === 'string' || (isObject(entry) && typeof entry.type === 'string'));
+        if (!valid) {
+            errors.push("'dependsOn' must be a task label, a task identifier object or an array of these");
+        }
+    }
+    if (task.dependsOrder !== undefined && task.dependsOrder !== 'parallel' && task.dependsOrder !== 'sequence') {
+        errors.push("'dependsOrder' must be 'parallel' or 'sequence'");
+    }
+}
+
+function validateProblemMatcher(problemMatcher: unknown, errors: string[]): void {
+    if (problemMatcher === undefined) {
+        return;
+    }
+    const entries: unknown[] = Array.isArray(problemMatcher) ? problemMatcher : [problemMatcher];
+    for (const entry of entries) {
+        if (typeof entry === 'string') {
+            continue;
+        }
+        if (!isObject(entry)) {
+            errors.push("'problemMatcher' entries must be matcher names or matcher objects");
+        } else if (entry.base === undefined && entry.pattern === undefined) {
+            errors.push("Inline problem matchers need a 'pattern' or a 'base'");
+        }
+    }
+}
+
+function validateOptions(options: unknown, name: string, errors: string[]): void {
+    if (options === undefined) {
+        return;
+    }
+    if (!isObject(options)) {
+        errors.push(`'${name}' must be an object`);
+        return;
+    }
+    checkType(options, 'cwd', 'string', errors, name);
+    if (options.env !== undefined) {
+        const env = options.env;
+        const valid = isObject(env) && Object.values(env).every(value => typeof value === 'string');
+        if (!valid) {
+            errors.push(`'${name}.env' must map variable names to strings`);
+        }
+    }
+    if (options.shell !== undefined && !isObject(options.shell)) {
+        errors.push(`'${name}.shell' must be an object with 'executable' and 'args'`);
+    }
+}
+
+function validatePresentation(presentation: unknown, errors: string[]): void {
+    if (presentation === undefined) {
+        return;
+    }
+    if (!isObject(presentation)) {
+        errors.push("'presentation' must be an object");
+        return;
+    }
+    if (presentation.reveal !== undefined && !isOneOf(presentation.reveal, REVEAL_KINDS)) {
+        errors.push(`'presentation.reveal' must be one of: ${REVEAL_KINDS.join(', ')}`);
+    }
+    if (presentation.panel !== undefined && !isOneOf(presentation.panel, PANEL_KINDS)) {
+        errors.push(`'presentation.panel' must be one of: ${PANEL_KINDS.join(', ')}`);
+    }
+    for (const flag of ['echo', 'focus', 'showReuseMessage', 'clear', 'close']) {
+        checkType(presentation, flag, 'boolean', errors, 'presentation');
+    }
+}
+
+function validateRunOptions(runOptions: unknown, errors: string[]): void {
+    if (runOptions === undefined) {
+        return;
+    }
+    if (!isObject(runOptions)) {
+        errors.push("'runOptions' must be an object");
+        return;
+    }
+    if (runOptions.runOn !== undefined && !isOneOf(runOptions.runOn, RUN_ON_KINDS)) {
+        errors.push(`'runOptions.runOn' must be one of: ${RUN_ON_KINDS.join(', ')}`);
+    }
+    checkType(runOptions, 'reevaluateOnRerun', 'boolean', errors, 'runOptions');
+}
+
+function checkType(target: JsonObject, property: string, type: 'string' | 'boolean', errors: string[], parent?: string): void {
+    if (target[property] !== undefined && typeof target[property] !== type) {
+        errors.push(`'${parent ? `${parent}.` : ''}${property}' must be a ${type}`);
+    }
+}
+
+export function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOneOf(value: unknown, kinds: string[]): boolean {
+    return typeof value === 'string' && kinds.includes(value);
+}
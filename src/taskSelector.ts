@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { TaskSelector } from './types';
+import { getTaskNodeId } from './taskGraph';
+
+// The parts of a task, run or history record that tell which task it is
+export interface TaskKey {
+    name: string;
+    source: string;
+    scope: string;
+}
+
+const FOLDER_SCOPE_PREFIX = 'folder:';
+
+export function getFolderScope(folder: vscode.WorkspaceFolder): string {
+    return `${FOLDER_SCOPE_PREFIX}${folder.name}`;
+}
+
+// The workspace folder name of a folder scope; workspace and user tasks have none
+export function getScopeFolder(scope: string): string | undefined {
+    return scope.startsWith(FOLDER_SCOPE_PREFIX) ? scope.slice(FOLDER_SCOPE_PREFIX.length) : undefined;
+}
+
+/**
+ * Looks up an open workspace folder by its name, URI or file system path.
+ */
+export function findWorkspaceFolder(folder: string): vscode.WorkspaceFolder {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const match = folders.find(candidate =>
+        candidate.name === folder ||
+        candidate.uri.toString() === folder ||
+        candidate.uri.fsPath === folder);
+    if (!match) {
+        throw new Error(`Workspace folder '${folder}' not found. Available folders: ${folders.map(f => f.name).join(', ')}`);
+    }
+    return match;
+}
+
+export function createTaskMatcher(selector: TaskSelector): (task: TaskKey) => boolean {
+    const scope = selector.folder ? getFolderScope(findWorkspaceFolder(selector.folder)) : undefined;
+    const source = selector.source?.toLowerCase();
+    return task =>
+        (!selector.taskId || getTaskNodeId(task) === selector.taskId) &&
+        (!selector.taskName || task.name === selector.taskName) &&
+        (!source || task.source.toLowerCase() === source) &&
+        (!scope || task.scope === scope);
+}
+
+/**
+ * Returns the items that belong to the task the selector refers to. Throws
+ * when they belong to several tasks, e.g. a task name defined in more than
+ * one workspace folder, listing the candidates' IDs.
+ */
+export function filterTask<T>(items: T[], selector: TaskSelector, getKey: (item: T) => TaskKey): T[] {
+    const matcher = createTaskMatcher(selector);
+    const matches = items.filter(item => matcher(getKey(item)));
+
+    const ids = Array.from(new Set(matches.map(item => getTaskNodeId(getKey(item)))));
+    if (ids.length > 1) {
+        throw new Error(`Task ${describeSelector(selector)} is ambiguous, it matches ${ids.length} tasks: ${ids.join(', ')}. Pass 'folder' or 'taskId' to pick one`);
+    }
+    return matches;
+}
+
+/**
+ * Picks the one task the selector refers to, failing when there is none or
+ * when the selector is ambiguous.
+ */
+export function selectTask<T>(items: T[], selector: TaskSelector, getKey: (item: T) => TaskKey): T {
+    if (!selector.taskName && !selector.taskId) {
+        throw new Error('Either taskName or taskId is required');
+    }
+
+    const [match] = filterTask(items, selector, getKey);
+    if (!match) {
+        const available = Array.from(new Set(items.map(item => getTaskNodeId(getKey(item))))).join(', ');
+        throw new Error(`Task ${describeSelector(selector)} not found. Available tasks: ${available}`);
+    }
+    return match;
+}
+
+function describeSelector(selector: TaskSelector): string {
+    if (selector.taskId) {
+        return `'${selector.taskId}'`;
+    }
+    const qualifiers = [
+        selector.source ? `source ${selector.source}` : '',
+        selector.folder ? `folder ${selector.folder}` : ''
+    ].filter(Boolean);
+    return qualifiers.length > 0 ? `'${selector.taskName}' (${qualifiers.join(', ')})` : `'${selector.taskName}'`;
+}
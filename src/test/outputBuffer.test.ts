@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { OutputBuffer, stripAnsi } from '../outputBuffer';
+
+describe('OutputBuffer', () => {
+    it('returns short output unchanged', () => {
+        const buffer = new OutputBuffer(100);
+        buffer.append('hello\r\n');
+        buffer.append('world\n');
+        assert.strictEqual(buffer.getText(), 'hello\nworld\n');
+        assert.strictEqual(buffer.isTruncated(), false);
+    });
+
+    it('keeps the start and the end when truncating output held in the head only', () => {
+        const buffer = new OutputBuffer();
+        for (let i = 0; i < 5000; i++) {
+            buffer.append(`line ${i}\n`);
+        }
+        buffer.append('FINAL ERROR: build failed\n');
+
+        const text = buffer.getText(2000);
+        assert.ok(text.startsWith('line 0\n'));
+        assert.ok(text.endsWith('FINAL ERROR: build failed\n'));
+        assert.ok(text.length <= 2000 + 50, `${text.length} characters`);
+        assert.strictEqual(buffer.isTruncated(2000), true);
+    });
+
+    it('takes the end from both head and tail when the tail is shorter than half the budget', () => {
+        const buffer = new OutputBuffer(20);
+        buffer.append('0123456789ab');
+
+        const text = buffer.getText(6);
+        assert.strictEqual(text, '012\n... [6 characters truncated] ...\n9ab');
+    });
+
+    it('drops the middle once the store limit is reached', () => {
+        const buffer = new OutputBuffer(10);
+        buffer.append('HEAD-');
+        buffer.append('middle that is dropped');
+        buffer.append('-TAIL');
+
+        assert.strictEqual(buffer.length, 32);
+        assert.strictEqual(buffer.isTruncated(), true);
+        assert.strictEqual(buffer.getText(), 'HEAD-\n... [22 characters truncated] ...\n-TAIL');
+        assert.strictEqual(buffer.getText(4), 'HE\n... [28 characters truncated] ...\nIL');
+    });
+
+    it('removes ANSI escapes split across chunks', () => {
+        const buffer = new OutputBuffer();
+        buffer.append('\u001b[3');
+        buffer.append('1mred\u001b[0m');
+        assert.strictEqual(buffer.getText(), 'red');
+        assert.strictEqual(stripAnsi('\u001b]0;title\u0007plain'), 'plain');
+    });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { buildTaskGraph, getDependencyIds, getSubgraph, toMermaid } from '../taskGraph';
+import { TaskInfo } from '../types';
+
+function task(name: string, properties: Partial<TaskInfo> = {}): TaskInfo {
+    const scope = properties.scope ?? 'folder:app';
+    const source = properties.source ?? 'Workspace';
+    return {
+        id: `${scope}/${source}/${name}`,
+        name,
+        source,
+        scope,
+        definition: { type: 'shell', label: name },
+        ...properties
+    };
+}
+
+describe('buildTaskGraph', () => {
+    it('links labels to tasks and follows dependencies transitively', () => {
+        const graph = buildTaskGraph([
+            task('build', { dependsOn: ['codegen', 'Workspace: clean'] }),
+            task('codegen', { dependsOn: ['clean'] }),
+            task('clean')
+        ]);
+
+        assert.deepStrictEqual(graph.edges, [
+            { from: 'folder:app/Workspace/build', to: 'folder:app/Workspace/codegen' },
+            { from: 'folder:app/Workspace/build', to: 'folder:app/Workspace/clean' },
+            { from: 'folder:app/Workspace/codegen', to: 'folder:app/Workspace/clean' }
+        ]);
+        assert.deepStrictEqual(graph.missing, []);
+        assert.deepStrictEqual(graph.cycles, []);
+        assert.deepStrictEqual(getDependencyIds(graph, 'folder:app/Workspace/build'), [
+            'folder:app/Workspace/codegen',
+            'folder:app/Workspace/clean'
+        ]);
+    });
+
+    it('prefers a task in the same scope and accepts a unique one elsewhere', () => {
+        const graph = buildTaskGraph([
+            task('build', { scope: 'folder:api', dependsOn: ['lint', 'shared'] }),
+            task('lint', { scope: 'folder:api' }),
+            task('lint', { scope: 'folder:web' }),
+            task('shared', { scope: 'workspace' })
+        ]);
+
+        assert.deepStrictEqual(graph.edges.map(edge => edge.to), ['folder:api/Workspace/lint', 'workspace/Workspace/shared']);
+    });
+
+    it('reports labels that match no task or several tasks in other scopes as missing', () => {
+        const graph = buildTaskGraph([
+            task('build', { scope: 'workspace', dependsOn: ['lint', 'gone'] }),
+            task('lint', { scope: 'folder:api' }),
+            task('lint', { scope: 'folder:web' })
+        ]);
+
+        assert.deepStrictEqual(graph.edges, []);
+        assert.deepStrictEqual(graph.missing, [
+            { from: 'workspace/Workspace/build', reference: 'lint' },
+            { from: 'workspace/Workspace/build', reference: 'gone' }
+        ]);
+        assert.ok(toMermaid(graph).includes('missing: gone'));
+    });
+
+    it('matches task identifiers against the task definition', () => {
+        const graph = buildTaskGraph([
+            task('build', { dependsOn: [{ type: 'npm', script: 'compile' }, { type: 'npm', script: 'watch' }] }),
+            task('npm: compile', { source: 'npm', definition: { type: 'npm', script: 'compile' } })
+        ]);
+
+        assert.deepStrictEqual(graph.edges.map(edge => edge.to), ['folder:app/npm/npm: compile']);
+        assert.deepStrictEqual(graph.missing.map(missing => missing.reference), [{ type: 'npm', script: 'watch' }]);
+    });
+
+    it('detects dependency cycles, including tasks that depend on themselves', () => {
+        const graph = buildTaskGraph([
+            task('a', { dependsOn: ['b'] }),
+            task('b', { dependsOn: ['c'] }),
+            task('c', { dependsOn: ['a'] }),
+            task('self', { dependsOn: ['self'] })
+        ]);
+
+        assert.deepStrictEqual(graph.cycles, [
+            ['folder:app/Workspace/a', 'folder:app/Workspace/b', 'folder:app/Workspace/c', 'folder:app/Workspace/a'],
+            ['folder:app/Workspace/self', 'folder:app/Workspace/self']
+        ]);
+        assert.ok(toMermaid(graph).includes('t2 -->|cycle| t0'));
+        assert.deepStrictEqual(getDependencyIds(graph, 'folder:app/Workspace/a'), ['folder:app/Workspace/b', 'folder:app/Workspace/c']);
+    });
+
+    it('restricts a subgraph to a task and its dependencies', () => {
+        const graph = buildTaskGraph([
+            task('build', { dependsOn: ['clean', 'gone'] }),
+            task('clean'),
+            task('test', { dependsOn: ['build'] })
+        ]);
+
+        const subgraph = getSubgraph(graph, 'folder:app/Workspace/build');
+        assert.deepStrictEqual(subgraph.nodes.map(node => node.name), ['build', 'clean']);
+        assert.deepStrictEqual(subgraph.edges, [{ from: 'folder:app/Workspace/build', to: 'folder:app/Workspace/clean' }]);
+        assert.strictEqual(subgraph.missing.length, 1);
+    });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { setWorkspaceFolders } from './vscodeMock';
+import { filterTask, getScopeFolder, selectTask, TaskKey } from '../taskSelector';
+
+const tasks: TaskKey[] = [
+    { name: 'build', source: 'Workspace', scope: 'folder:api' },
+    { name: 'build', source: 'Workspace', scope: 'folder:web' },
+    { name: 'test', source: 'npm', scope: 'folder:api' },
+    { name: 'test', source: 'Workspace', scope: 'folder:api' },
+    { name: 'lint', source: 'Workspace', scope: 'workspace' }
+];
+const key = (task: TaskKey) => task;
+
+describe('task selectors', () => {
+    beforeEach(() => setWorkspaceFolders('api', 'web'));
+
+    it('selects a task by name, ID, source or folder', () => {
+        assert.strictEqual(selectTask(tasks, { taskName: 'lint' }, key), tasks[4]);
+        assert.strictEqual(selectTask(tasks, { taskId: 'folder:web/Workspace/build' }, key), tasks[1]);
+        assert.strictEqual(selectTask(tasks, { taskName: 'build', folder: 'api' }, key), tasks[0]);
+        assert.strictEqual(selectTask(tasks, { taskName: 'test', source: 'NPM' }, key), tasks[2]);
+    });
+
+    it('resolves folders by URI and path as well as by name', () => {
+        assert.strictEqual(selectTask(tasks, { taskName: 'build', folder: 'file:///work/web' }, key), tasks[1]);
+        assert.strictEqual(selectTask(tasks, { taskName: 'build', folder: '/work/web' }, key), tasks[1]);
+    });
+
+    it('lists the candidates when a selector matches several tasks', () => {
+        assert.throws(
+            () => selectTask(tasks, { taskName: 'build' }, key),
+            /Task 'build' is ambiguous, it matches 2 tasks: folder:api\/Workspace\/build, folder:web\/Workspace\/build\. Pass 'folder' or 'taskId'/
+        );
+        assert.throws(
+            () => filterTask(tasks, { taskName: 'test', folder: 'api' }, key),
+            /Task 'test' \(folder api\) is ambiguous, it matches 2 tasks/
+        );
+    });
+
+    it('returns every item of the one matching task', () => {
+        const runs = [tasks[0], tasks[0], tasks[4]];
+        assert.deepStrictEqual(filterTask(runs, { taskName: 'build' }, key), [tasks[0], tasks[0]]);
+        assert.deepStrictEqual(filterTask(runs, { taskName: 'gone' }, key), []);
+    });
+
+    it('fails for unknown tasks, unknown folders and empty selectors', () => {
+        assert.throws(() => selectTask(tasks, { taskName: 'deploy' }, key), /Task 'deploy' not found\. Available tasks: folder:api\/Workspace\/build, /);
+        assert.throws(() => selectTask(tasks, { taskName: 'build', folder: 'docs' }, key), /Workspace folder 'docs' not found\. Available folders: api, web/);
+        assert.throws(() => selectTask(tasks, {}, key), /Either taskName or taskId is required/);
+    });
+
+    it('reads the folder name of folder scopes only', () => {
+        assert.strictEqual(getScopeFolder('folder:api'), 'api');
+        assert.strictEqual(getScopeFolder('workspace'), undefined);
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import './vscodeMock';
+import { buildTaskTools } from '../taskTools';
+import { TaskInfo } from '../types';
+
+function task(name: string, properties: Partial<TaskInfo> = {}): TaskInfo {
+    const scope = properties.scope ?? 'workspace';
+    const source = properties.source ?? 'Workspace';
+    return { id: `${scope}/${source}/${name}`, name, source, scope, definition: { type: 'shell' }, ...properties };
+}
+
+describe('buildTaskTools', () => {
+    it('names tools after the task source and name', () => {
+        const tools = buildTaskTools([task('Build & Test'), task('watch:tsc', { source: 'npm' }), task('!!!')]);
+        assert.deepStrictEqual(tools.map(tool => tool.name), ['task_workspace_build_test', 'task_npm_watch_tsc', 'task_workspace_task']);
+    });
+
+    it('appends the folder to names shared by tasks in several folders', () => {
+        const tools = buildTaskTools([
+            task('build', { scope: 'folder:api' }),
+            task('build', { scope: 'folder:web' }),
+            task('lint', { scope: 'folder:api' })
+        ]);
+        assert.deepStrictEqual(tools.map(tool => tool.name), ['task_workspace_build_api', 'task_workspace_build_web', 'task_workspace_lint']);
+        assert.ok(tools[1].description.includes('(Workspace, folder web)'));
+    });
+
+    it('numbers names that still collide', () => {
+        const tools = buildTaskTools([task('build-all'), task('build all'), task('build_all')]);
+        assert.deepStrictEqual(tools.map(tool => tool.name), ['task_workspace_build_all', 'task_workspace_build_all_2', 'task_workspace_build_all_3']);
+    });
+
+    it('keeps names, including their numbering, within 64 characters', () => {
+        const longName = 'x'.repeat(80);
+        const tools = buildTaskTools([task(longName), task(`${longName}!`)]);
+        assert.strictEqual(tools[0].name, `task_workspace_${'x'.repeat(64 - 'task_workspace_'.length)}`);
+        assert.strictEqual(tools[1].name.length, 64);
+        assert.ok(tools[1].name.endsWith('x_2'));
+    });
+
+    it('turns task inputs into parameters, required unless they have a default', () => {
+        const [tool] = buildTaskTools([task('deploy', {
+            inputs: [
+                { id: 'target', type: 'pickString', options: ['staging', 'production'] },
+                { id: 'tag', type: 'promptString', default: 'latest', description: 'Image tag' }
+            ]
+        })]);
+
+        assert.strictEqual(tool.inputSchema.target.safeParse('staging').success, true);
+        assert.strictEqual(tool.inputSchema.target.safeParse('qa').success, false);
+        assert.strictEqual(tool.inputSchema.target.safeParse(undefined).success, false);
+        assert.strictEqual(tool.inputSchema.tag.safeParse(undefined).success, true);
+        assert.strictEqual(tool.inputSchema.tag.description, 'Image tag (default: latest)');
+    });
+});
@@ -0,0 +1,22 @@
+/**
+ * Stands in for the 'vscode' module, which only exists inside the extension
+ * host. Importing this file before a module under test resolves its 'vscode'
+ * import here, so modules that only touch the workspace folders can run in
+ * plain mocha.
+ */
+export const workspace: { workspaceFolders: { name: string; uri: { fsPath: string; toString(): string } }[] } = {
+    workspaceFolders: []
+};
+
+export function setWorkspaceFolders(...names: string[]): void {
+    workspace.workspaceFolders = names.map(name => {
+        const fsPath = `/work/${name}`;
+        return { name, uri: { fsPath, toString: () => `file://${fsPath}` } };
+    });
+}
+
+const Module = require('module');
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? __filename : resolveFilename.call(this, request, ...rest);
+};
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+
+// Zod mirrors of the types in types.ts, used as the output schemas of the MCP tools
+
+const runStatusSchema = z.enum(['queued', 'running', 'ready', 'succeeded', 'failed', 'terminated', 'cancelled', 'timedOut']);
+
+const lifecycleSchema = z.object({
+    state: z.enum(['queued', 'started', 'processStarted', 'processEnded', 'ended']),
+    queuedAt: z.number().optional(),
+    startedAt: z.number().optional(),
+    processStartedAt: z.number().optional(),
+    processId: z.number().optional(),
+    processEndedAt: z.number().optional(),
+    exitCode: z.number().optional(),
+    endedAt: z.number().optional(),
+    terminated: z.boolean(),
+    cancelled: z.boolean().optional(),
+    timedOut: z.boolean().optional()
+});
+
+const queueSchema = z.object({
+    position: z.number().describe('1-based position among all queued runs'),
+    waitingMs: z.number(),
+    reason: z.string(),
+    blockedBy: z.string().optional().describe('Run ID of the run of the same task it waits for')
+});
+
+const dependencyReferenceSchema = z.union([z.string(), z.object({ type: z.string() }).passthrough()]);
+
+const positionSchema = z.object({
+    line: z.number(),
+    character: z.number()
+});
+
+export const problemSchema = z.object({
+    file: z.string(),
+    range: z.object({
+        start: positionSchema,
+        end: positionSchema
+    }),
+    severity: z.enum(['error', 'warning', 'information', 'hint']),
+    message: z.string(),
+    code: z.string().optional(),
+    source: z.string().optional()
+});
+
+export const taskInfoSchema = z.object({
+    id: z.string(),
+    runId: z.string().optional(),
+    name: z.string(),
+    source: z.string(),
+    group: z.string().optional(),
+    scope: z.string(),
+    detail: z.string().optional(),
+    definition: z.record(z.any()),
+    execution: z.object({
+        type: z.enum(['shell', 'process', 'custom']),
+        command: z.string().optional(),
+        args: z.array(z.string()).optional()
+    }).optional(),
+    isBackground: z.boolean().optional(),
+    problemMatchers: z.array(z.string()).optional(),
+    inputs: z.array(z.object({
+        id: z.string(),
+        type: z.enum(['promptString', 'pickString', 'command']),
+        description: z.string().optional(),
+        default: z.string().optional(),
+        options: z.array(z.string()).optional(),
+        password: z.boolean().optional()
+    })).optional(),
+    dependsOn: z.array(dependencyReferenceSchema).optional(),
+    dependsOrder: z.enum(['parallel', 'sequence']).optional(),
+    lifecycle: lifecycleSchema.optional(),
+    queue: queueSchema.optional()
+});
+
+export const taskListShape = {
+    folders: z.array(z.object({
+        scope: z.string(),
+        folder: z.string().optional(),
+        tasks: z.array(taskInfoSchema)
+    })).describe('Tasks grouped by workspace folder; workspace and user tasks form groups of their own')
+};
+
+export const executionResultSchema = z.object({
+    taskName: z.string(),
+    runId: z.string().optional(),
+    status: runStatusSchema,
+    exitCode: z.number().optional(),
+    processId: z.number().optional(),
+    success: z.boolean(),
+    output: z.string().optional(),
+    error: z.string().optional(),
+    startTime: z.number(),
+    endTime: z.number(),
+    duration: z.number(),
+    outputTruncated: z.boolean().optional(),
+    problems: z.array(problemSchema).optional(),
+    readyReason: z.string().optional(),
+    dependencies: z.array(z.object({
+        taskName: z.string(),
+        source: z.string(),
+        scope: z.string(),
+        runId: z.string().optional(),
+        status: z.union([runStatusSchema, z.literal('notStarted')]),
+        exitCode: z.number().optional()
+    })).optional()
+});
+
+// A run as reported by execute_task, run_command, get_task_result and wait_for_task
+export const taskRunShape = {
+    runId: z.string().optional(),
+    taskName: z.string(),
+    source: z.string().optional(),
+    status: runStatusSchema,
+    startTime: z.number(),
+    lifecycle: lifecycleSchema.optional(),
+    queue: queueSchema.optional().describe('Set while the run waits for a free slot or for another run of the same task'),
+    attached: z.boolean().optional().describe('The task was already running and this is that run rather than a new one'),
+    result: executionResultSchema.optional().describe('Final result; set once the run finished, or became ready for background tasks')
+};
+
+export const historyRecordSchema = z.object({
+    runId: z.string(),
+    taskName: z.string(),
+    source: z.string(),
+    scope: z.string(),
+    trigger: z.enum(['agent', 'human']),
+    status: runStatusSchema,
+    exitCode: z.number().optional(),
+    startTime: z.number(),
+    endTime: z.number(),
+    duration: z.number(),
+    output: z.string().optional(),
+    error: z.string().optional(),
+    problemSummary: z.object({
+        errors: z.number(),
+        warnings: z.number(),
+        total: z.number()
+    })
+});
+
+export const taskGraphShape = {
+    nodes: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        source: z.string(),
+        scope: z.string(),
+        dependsOrder: z.enum(['parallel', 'sequence']).optional()
+    })),
+    edges: z.array(z.object({
+        from: z.string(),
+        to: z.string()
+    })),
+    missing: z.array(z.object({
+        from: z.string(),
+        reference: dependencyReferenceSchema
+    })),
+    cycles: z.array(z.array(z.string())),
+    mermaid: z.string().describe('The graph as a Mermaid flowchart')
+};
+
+export const backgroundStatusShape = {
+    taskName: z.string(),
+    runId: z.string(),
+    running: z.boolean(),
+    ready: z.boolean(),
+    readyReason: z.string().optional(),
+    readyAt: z.number().optional(),
+    cycleState: z.enum(['active', 'idle']),
+    completedCycles: z.number(),
+    lastCycleStartedAt: z.number().optional(),
+    lastCycleEndedAt: z.number().optional(),
+    problems: z.array(problemSchema)
+};
+
+export const taskOutputShape = {
+    taskName: z.string(),
+    output: z.string(),
+    totalLength: z.number(),
+    truncated: z.boolean(),
+    completed: z.boolean()
+};
+
+export const taskProblemsShape = {
+    taskName: z.string(),
+    runId: z.string(),
+    problems: z.array(problemSchema),
+    completed: z.boolean()
+};
+
+export const taskFileEditShape = {
+    label: z.string(),
+    file: z.string().describe('Path of the edited tasks.json')
+};
@@ -2,10 +2,14 @@ import * as vscode from 'vscode';
 
 // Task-related Types
 export interface TaskInfo {
+    // Fully qualified task ID: <scope>/<source>/<name>
+    id: string;
+    runId?: string;
     name: string;
     source: string;
     group?: string;
     scope: string;
+    detail?: string;
     definition: vscode.TaskDefinition;
     execution?: {
         type: 'shell' | 'process' | 'custom';
@@ -14,22 +18,329 @@ export interface TaskInfo {
     };
     isBackground?: boolean;
     problemMatchers?: string[];
+    inputs?: TaskInputInfo[];
+    dependsOn?: TaskDependencyReference[];
+    dependsOrder?: 'parallel' | 'sequence';
+    lifecycle?: TaskLifecycle;
+    queue?: TaskQueueInfo;
+}
+
+// A dependsOn entry: a task label, or a task identifier such as { "type": "npm", "script": "build" }
+export type TaskDependencyReference = string | { type: string; [property: string]: any };
+
+export interface TaskGraphNode {
+    id: string;
+    name: string;
+    source: string;
+    scope: string;
+    dependsOrder?: 'parallel' | 'sequence';
+}
+
+export interface TaskGraphEdge {
+    from: string;
+    to: string;
+}
+
+export interface TaskGraphMissingReference {
+    from: string;
+    reference: TaskDependencyReference;
+}
+
+export interface TaskGraph {
+    nodes: TaskGraphNode[];
+    edges: TaskGraphEdge[];
+    missing: TaskGraphMissingReference[];
+    // Each cycle lists node IDs in dependency order, repeating the first at the end
+    cycles: string[][];
+}
+
+// Inputs declared in tasks.json and referenced by a task as ${input:id}
+export interface TaskInputInfo {
+    id: string;
+    type: 'promptString' | 'pickString' | 'command';
+    description?: string;
+    default?: string;
+    options?: string[];
+    password?: boolean;
+}
+
+export interface TaskExecutionOverrides {
+    inputs?: { [id: string]: string };
+    args?: string[];
+    env?: { [key: string]: string };
+    cwd?: string;
+}
+
+// An ad-hoc command for run_command; args are passed without shell interpretation
+export interface RunCommandRequest {
+    command: string;
+    args?: string[];
+    cwd?: string;
+    env?: { [key: string]: string };
+    timeoutMs?: number;
+}
+
+// Caller-supplied signals that a background task is ready
+export interface TaskReadinessOptions {
+    pattern?: string;
+    port?: number;
+    host?: string;
+}
+
+export type TaskLifecycleState = 'queued' | 'started' | 'processStarted' | 'processEnded' | 'ended';
+
+export interface TaskLifecycle {
+    state: TaskLifecycleState;
+    queuedAt?: number;
+    startedAt?: number;
+    processStartedAt?: number;
+    processId?: number;
+    processEndedAt?: number;
+    exitCode?: number;
+    endedAt?: number;
+    terminated: boolean;
+    // Set when the MCP request waiting for the run was cancelled or its client disconnected
+    cancelled?: boolean;
+    // Set when the run was terminated because it outlived its timeout
+    timedOut?: boolean;
+}
+
+// 'queued' means the run waits for a free slot or for another run of the same task;
+// 'ready' means a background task is still running and has signalled readiness;
+// 'timedOut' means the run outlived its timeout and was terminated, or is still going
+export type TaskRunStatus = 'queued' | 'running' | 'ready' | 'succeeded' | 'failed' | 'terminated' | 'cancelled' | 'timedOut';
+
+// What happens to a run that outlives its timeout: 'terminate' stops it,
+// 'keepRunning' leaves it running and returns its run ID to follow it with
+export type TaskTimeoutAction = 'terminate' | 'keepRunning';
+
+// Where a queued run stands
+export interface TaskQueueInfo {
+    // 1-based position among all queued runs
+    position: number;
+    waitingMs: number;
+    reason: string;
+    // The run of the same task it waits for, if any
+    blockedBy?: string;
+}
+
+// Ties a run to the MCP request waiting for it
+export interface TaskRunContext {
+    // Called once the run is launched, before waiting for it
+    onStarted?: (run: TaskRunInfo) => void;
+    // Aborting it terminates the run
+    signal?: AbortSignal;
+    // Override the timeout and timeout action configured for the task
+    timeoutMs?: number;
+    onTimeout?: TaskTimeoutAction;
 }
 
 export interface TaskExecutionResult {
     taskName: string;
+    runId?: string;
+    status: TaskRunStatus;
     exitCode?: number;
+    processId?: number;
     success: boolean;
     output?: string;
     error?: string;
+    startTime: number;
+    endTime: number;
+    duration: number;
+    outputTruncated?: boolean;
+    problems?: TaskProblem[];
+    readyReason?: string;
+    dependencies?: TaskDependencyOutcome[];
+}
+
+// How a dependency of a compound task fared during its run
+export interface TaskDependencyOutcome {
+    taskName: string;
+    source: string;
+    scope: string;
+    runId?: string;
+    status: TaskRunStatus | 'notStarted';
+    exitCode?: number;
+}
+
+export interface TaskProblemPosition {
+    line: number;
+    character: number;
+}
+
+// A diagnostic produced by a task's problem matcher; positions are zero-based
+export interface TaskProblem {
+    file: string;
+    range: {
+        start: TaskProblemPosition;
+        end: TaskProblemPosition;
+    };
+    severity: 'error' | 'warning' | 'information' | 'hint';
+    message: string;
+    code?: string;
+    source?: string;
+}
+
+export interface TaskProblemsInfo {
+    taskName: string;
+    runId: string;
+    problems: TaskProblem[];
+    completed: boolean;
+}
+
+export interface TaskRunInfo {
+    runId: string;
+    taskName: string;
+    source: string;
+    status: TaskRunStatus;
+    startTime: number;
+    lifecycle: TaskLifecycle;
+    queue?: TaskQueueInfo;
+    // Set when the task was already running and the caller got that run instead of a new one
+    attached?: boolean;
+    result?: TaskExecutionResult;
+}
+
+export type TaskRunUpdateKind = 'started' | 'processStarted' | 'output' | 'completed';
+
+// Fired as a run progresses: when it starts, launches its process, captures output and finishes
+export interface TaskRunUpdate {
+    runId: string;
+    taskName: string;
+    kind: TaskRunUpdateKind;
+    // The captured chunk, for 'output' updates
+    output?: string;
+}
+
+// 'active' while a watch cycle (e.g. a rebuild) is in progress, 'idle' between cycles
+export type WatchCycleState = 'active' | 'idle';
+
+export interface BackgroundTaskStatus {
+    taskName: string;
+    runId: string;
+    running: boolean;
+    ready: boolean;
+    readyReason?: string;
+    readyAt?: number;
+    cycleState: WatchCycleState;
+    completedCycles: number;
+    lastCycleStartedAt?: number;
+    lastCycleEndedAt?: number;
+    problems: TaskProblem[];
+}
+
+// Whether a run was started through MCP or by the user in VSCode
+export type TaskRunTrigger = 'agent' | 'human';
+
+export interface TaskHistoryRecord {
+    runId: string;
+    taskName: string;
+    source: string;
+    scope: string;
+    trigger: TaskRunTrigger;
+    status: TaskRunStatus;
+    exitCode?: number;
+    startTime: number;
+    endTime: number;
     duration: number;
+    output?: string;
+    error?: string;
+    problemSummary: {
+        errors: number;
+        warnings: number;
+        total: number;
+    };
+}
+
+// Picks a task by its fully qualified ID, or by name narrowed down by source and workspace folder
+export interface TaskSelector {
+    taskName?: string;
+    taskId?: string;
+    source?: string;
+    // Workspace folder name, URI or path
+    folder?: string;
+}
+
+export interface TaskHistoryQuery extends TaskSelector {
+    status?: TaskRunStatus;
+    trigger?: TaskRunTrigger;
+    // Bounds on the run's start time, in milliseconds since the epoch
+    since?: number;
+    until?: number;
+    limit?: number;
+}
+
+export interface TaskOutputInfo {
+    taskName: string;
+    output: string;
+    totalLength: number;
+    truncated: boolean;
+    completed: boolean;
 }
 
 // Server Configuration
 export interface MCPServerConfig {
+    host: string;
     port: number;
+    allowedOrigins: string[];
     enableLogging: boolean;
     autoStart: boolean;
+    captureOutput: boolean;
+    maxOutputLength: number;
+    taskPolicyDefault: TaskPolicyAction;
+    taskPolicyRules: TaskPolicyRule[];
+    runCommandAllowedExecutables: string[];
+    runCommandRestrictToWorkspace: boolean;
+    runCommandScrubbedEnvironment: string[];
+    runCommandTimeoutMs: number;
+    historyMaxRecords: number;
+    historyMaxAgeDays: number;
+    historyMaxOutputLength: number;
+    customPrompts: PromptTemplate[];
+    taskToolsEnabled: boolean;
+    taskToolGroups: string[];
+    maxRunningTasks: number;
+    concurrencyDefault: TaskConcurrencyPolicy;
+    concurrencyRules: TaskConcurrencyRule[];
+    defaultTimeoutSeconds: number;
+    onTimeout: TaskTimeoutAction;
+    taskTimeouts: TaskTimeoutRule[];
+}
+
+// A prompt from mcpTaskServer.prompts.custom; {{placeholders}} are filled in for the given task
+export interface PromptTemplate {
+    name: string;
+    description?: string;
+    template: string;
+}
+
+// Task Policy
+export type TaskPolicyAction = 'allow' | 'ask' | 'deny';
+
+export interface TaskPolicyRule {
+    name?: string;
+    source?: string;
+    group?: string;
+    action: TaskPolicyAction;
+}
+
+// What happens when an agent starts a task that is already running or queued
+export type TaskConcurrencyPolicy = 'reject' | 'queue' | 'restart' | 'attach';
+
+export interface TaskConcurrencyRule {
+    name?: string;
+    source?: string;
+    group?: string;
+    ifRunning: TaskConcurrencyPolicy;
+}
+
+// Unset values fall back to mcpTaskServer.defaultTimeoutSeconds and mcpTaskServer.onTimeout
+export interface TaskTimeoutRule {
+    name?: string;
+    source?: string;
+    group?: string;
+    timeoutSeconds?: number;
+    onTimeout?: TaskTimeoutAction;
 }
 
 // Logging Types
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { TaskInputInfo } from './types';
+
+const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+const INPUT_PATTERN = /\$\{input:([^}]+)\}/g;
+
+export class MissingInputError extends Error {
+    constructor(readonly inputId: string) {
+        super(`No value provided for input '${inputId}'`);
+        this.name = 'MissingInputError';
+    }
+}
+
+/**
+ * Returns the IDs of all `${input:...}` variables referenced in the value.
+ */
+export function findInputReferences(value: string): string[] {
+    const ids = new Set<string>();
+    for (const match of value.matchAll(INPUT_PATTERN)) {
+        ids.add(match[1]);
+    }
+    return Array.from(ids);
+}
+
+/**
+ * Resolves the predefined `${...}` variables used in tasks.json so that a task
+ * can be re-executed outside of VSCode's own task runner.
+ */
+export class VariableResolver {
+    private folder?: vscode.WorkspaceFolder;
+    private inputValues: { [id: string]: string };
+    private declaredInputs: TaskInputInfo[];
+
+    constructor(folder?: vscode.WorkspaceFolder, inputValues: { [id: string]: string } = {}, declaredInputs: TaskInputInfo[] = []) {
+        this.folder = folder || vscode.workspace.workspaceFolders?.[0];
+        this.inputValues = inputValues;
+        this.declaredInputs = declaredInputs;
+    }
+
+    /**
+     * Replaces every variable in the given value. `${input:...}` variables take
+     * the supplied value or the input's declared default. Throws if a variable
+     * cannot be resolved without user interaction (e.g. `${command:...}`).
+     */
+    resolve(value: string): string {
+        return value.replace(VARIABLE_PATTERN, (_match, variable: string) => this.resolveVariable(variable));
+    }
+
+    resolveAll(values: string[]): string[] {
+        return values.map(value => this.resolve(value));
+    }
+
+    private resolveVariable(variable: string): string {
+        const separator = variable.indexOf(':');
+        if (separator !== -1) {
+            const prefix = variable.slice(0, separator);
+            const argument = variable.slice(separator + 1);
+            switch (prefix) {
+                case 'env':
+                    return process.env[argument] || '';
+                case 'input':
+                    return this.resolveInput(argument);
+                case 'config': {
+                    const value = vscode.workspace.getConfiguration(undefined, this.folder?.uri).get(argument);
+                    if (value === undefined || value === null) {
+                        return '';
+                    }
+                    return typeof value === 'string' ? value : JSON.stringify(value);
+                }
+                case 'workspaceFolder':
+                case 'workspaceFolderBasename': {
+                    const named = vscode.workspace.workspaceFolders?.find(folder => folder.name === argument);
+                    if (!named) {
+                        throw new Error(`Unknown workspace folder '${argument}' in variable '\${${variable}}'`);
+                    }
+                    return prefix === 'workspaceFolder' ? named.uri.fsPath : named.name;
+                }
+                default:
+                    throw new Error(`Variable '\${${variable}}' requires user interaction and cannot be resolved`);
+            }
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const file = editor?.document.uri.scheme === 'file' ? editor.document.uri.fsPath : undefined;
+
+        switch (variable) {
+            case 'workspaceFolder':
+            case 'workspaceRoot':
+                return this.requireFolder(variable).uri.fsPath;
+            case 'workspaceFolderBasename':
+                return this.requireFolder(variable).name;
+            case 'cwd':
+                return this.folder ? this.folder.uri.fsPath : process.cwd();
+            case 'userHome':
+                return os.homedir();
+            case 'pathSeparator':
+            case '/':
+                return path.sep;
+            case 'execPath':
+                return process.execPath;
+            case 'file':
+                return this.requireFile(variable, file);
+            case 'fileBasename':
+                return path.basename(this.requireFile(variable, file));
+            case 'fileBasenameNoExtension': {
+                const filePath = this.requireFile(variable, file);
+                return path.basename(filePath, path.extname(filePath));
+            }
+            case 'fileExtname':
+                return path.extname(this.requireFile(variable, file));
+            case 'fileDirname':
+                return path.dirname(this.requireFile(variable, file));
+            case 'fileDirnameBasename':
+                return path.basename(path.dirname(this.requireFile(variable, file)));
+            case 'relativeFile':
+                return vscode.workspace.asRelativePath(this.requireFile(variable, file), false);
+            case 'relativeFileDirname':
+                return vscode.workspace.asRelativePath(path.dirname(this.requireFile(variable, file)), false);
+            case 'fileWorkspaceFolder': {
+                const filePath = this.requireFile(variable, file);
+                const owner = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+                if (!owner) {
+                    throw new Error(`Active file is not inside a workspace folder for variable '\${${variable}}'`);
+                }
+                return owner.uri.fsPath;
+            }
+            case 'lineNumber':
+                if (!editor) {
+                    throw new Error(`No active editor to resolve variable '\${${variable}}'`);
+                }
+                return String(editor.selection.active.line + 1);
+            case 'selectedText':
+                return editor ? editor.document.getText(editor.selection) : '';
+            default:
+                throw new Error(`Unsupported variable '\${${variable}}'`);
+        }
+    }
+
+    private resolveInput(id: string): string {
+        const declared = this.declaredInputs.find(input => input.id === id);
+        const value = this.inputValues[id] ?? declared?.default;
+        if (value === undefined) {
+            throw new MissingInputError(id);
+        }
+
+        if (declared?.type === 'pickString' && declared.options && !declared.options.includes(value)) {
+            throw new Error(`Value '${value}' for input '${id}' is not one of: ${declared.options.join(', ')}`);
+        }
+        return value;
+    }
+
+    private requireFolder(variable: string): vscode.WorkspaceFolder {
+        if (!this.folder) {
+            throw new Error(`No workspace folder is open to resolve variable '\${${variable}}'`);
+        }
+        return this.folder;
+    }
+
+    private requireFile(variable: string, file: string | undefined): string {
+        if (!file) {
+            throw new Error(`No active file to resolve variable '\${${variable}}'`);
+        }
+        return file;
+    }
+}